@@ -7,7 +7,13 @@ import { authController } from './auth/controller';
 import { meetingsController } from './meetings/controller';
 import { invitesController } from './invites/controller';
 import { usersController } from './users/controller';
+import { chatController } from './chat/controller';
+import { bansController } from './bans/controller';
+import { rolesController } from './roles/controller';
 import { wsGateway } from './ws/gateway';
+import { roomRoster } from './ws/roster';
+import { wsState } from './ws/state';
+import { heartbeatSweeper } from './ws/heartbeat';
 
 let app: ReturnType<typeof createApp>;
 
@@ -343,6 +349,118 @@ function createApp() {
               },
             },
           },
+          '/v1/meetings/{id}/settings': {
+            get: {
+              tags: ['Meetings'],
+              summary: 'Get meeting settings',
+              description:
+                'Get the full settings of a meeting, with defaults filled in. User must be a participant or host of the meeting.',
+              security: [{ bearerAuth: [] }],
+              parameters: [
+                {
+                  name: 'id',
+                  in: 'path',
+                  required: true,
+                  schema: { type: 'string' },
+                  description: 'Meeting ID',
+                },
+              ],
+              responses: {
+                200: {
+                  description: 'Settings retrieved successfully',
+                },
+                401: {
+                  description: 'Unauthorized',
+                },
+                403: {
+                  description: 'Forbidden',
+                },
+                404: {
+                  description: 'Meeting not found',
+                },
+              },
+            },
+            patch: {
+              tags: ['Meetings'],
+              summary: 'Update meeting settings',
+              description:
+                'Change the host-controlled settings of a meeting. Only the host can update settings.',
+              security: [{ bearerAuth: [] }],
+              parameters: [
+                {
+                  name: 'id',
+                  in: 'path',
+                  required: true,
+                  schema: { type: 'string' },
+                  description: 'Meeting ID',
+                },
+              ],
+              requestBody: {
+                content: {
+                  'application/json': {
+                    schema: {
+                      type: 'object',
+                      properties: {
+                        privateChat: { type: 'boolean' },
+                        waitingRoom: { type: 'boolean' },
+                        autoAdmit: {
+                          type: 'string',
+                          enum: ['everyone', 'signedIn', 'domains', 'invited'],
+                        },
+                        autoAdmitDomains: {
+                          type: 'array',
+                          items: { type: 'string' },
+                        },
+                        permissions: {
+                          type: 'object',
+                          properties: {
+                            cohost: {
+                              type: 'array',
+                              items: { type: 'string' },
+                            },
+                            guest: {
+                              type: 'array',
+                              items: { type: 'string' },
+                            },
+                          },
+                        },
+                        muteOnEntry: { type: 'boolean' },
+                        camerasOffOnEntry: { type: 'boolean' },
+                        chatEnabled: { type: 'boolean' },
+                        reactionsEnabled: { type: 'boolean' },
+                        screenShare: {
+                          type: 'string',
+                          enum: ['everyone', 'hosts'],
+                        },
+                        maxParticipants: {
+                          type: 'integer',
+                          nullable: true,
+                        },
+                        allowGuests: { type: 'boolean' },
+                      },
+                    },
+                  },
+                },
+              },
+              responses: {
+                200: {
+                  description: 'Settings updated successfully',
+                },
+                400: {
+                  description: 'Validation error',
+                },
+                401: {
+                  description: 'Unauthorized',
+                },
+                403: {
+                  description: 'Forbidden',
+                },
+                404: {
+                  description: 'Meeting not found',
+                },
+              },
+            },
+          },
 
           '/v1/meetings/resolve-code': {
             post: {
@@ -401,6 +519,7 @@ function createApp() {
                       properties: {
                         allowGuest: { type: 'boolean', default: false },
                         displayName: { type: 'string' },
+                        fingerprint: { type: 'string' },
                       },
                     },
                   },
@@ -419,6 +538,47 @@ function createApp() {
                 404: {
                   description: 'Meeting not found',
                 },
+                410: {
+                  description: 'Meeting already ended',
+                },
+                423: {
+                  description: 'Meeting locked',
+                },
+              },
+            },
+          },
+          '/v1/meetings/{id}/end': {
+            post: {
+              tags: ['Meetings'],
+              summary: 'End meeting',
+              description:
+                'End the meeting for everyone and disconnect all participants. Only the host can end a meeting.',
+              security: [{ bearerAuth: [] }],
+              parameters: [
+                {
+                  name: 'id',
+                  in: 'path',
+                  required: true,
+                  schema: { type: 'string' },
+                  description: 'Meeting ID',
+                },
+              ],
+              responses: {
+                200: {
+                  description: 'Meeting ended successfully',
+                },
+                401: {
+                  description: 'Unauthorized',
+                },
+                403: {
+                  description: 'Forbidden',
+                },
+                404: {
+                  description: 'Meeting not found',
+                },
+                410: {
+                  description: 'Meeting already ended',
+                },
               },
             },
           },
@@ -569,6 +729,283 @@ function createApp() {
             },
           },
 
+          // Chat endpoints
+          '/v1/meetings/{id}/messages': {
+            get: {
+              tags: ['Chat'],
+              summary: 'List chat messages',
+              description:
+                'Retrieve the chat history of a meeting with cursor pagination',
+              security: [{ bearerAuth: [] }],
+              parameters: [
+                {
+                  name: 'id',
+                  in: 'path',
+                  required: true,
+                  schema: { type: 'string' },
+                  description: 'Meeting ID',
+                },
+                {
+                  name: 'before',
+                  in: 'query',
+                  schema: { type: 'string' },
+                  description: 'Return messages older than this message id',
+                },
+                {
+                  name: 'after',
+                  in: 'query',
+                  schema: { type: 'string' },
+                  description: 'Return messages newer than this message id',
+                },
+                {
+                  name: 'limit',
+                  in: 'query',
+                  schema: { type: 'integer', minimum: 1, maximum: 100 },
+                  description: 'Maximum number of messages to return',
+                },
+              ],
+              responses: {
+                200: {
+                  description: 'Chat messages retrieved successfully',
+                },
+                401: {
+                  description: 'Unauthorized',
+                },
+                403: {
+                  description: 'Forbidden',
+                },
+                404: {
+                  description: 'Meeting not found',
+                },
+              },
+            },
+          },
+
+          // Ban endpoints
+          '/v1/meetings/{id}/bans': {
+            get: {
+              tags: ['Bans'],
+              summary: 'List meeting bans',
+              description:
+                'Retrieve everyone banned from the meeting. Only the host can list bans.',
+              security: [{ bearerAuth: [] }],
+              parameters: [
+                {
+                  name: 'id',
+                  in: 'path',
+                  required: true,
+                  schema: { type: 'string' },
+                  description: 'Meeting ID',
+                },
+              ],
+              responses: {
+                200: {
+                  description: 'Bans retrieved successfully',
+                },
+                401: {
+                  description: 'Unauthorized',
+                },
+                403: {
+                  description: 'Forbidden',
+                },
+                404: {
+                  description: 'Meeting not found',
+                },
+              },
+            },
+          },
+          '/v1/meetings/{id}/bans/{banId}': {
+            delete: {
+              tags: ['Bans'],
+              summary: 'Unban a participant',
+              description:
+                'Lift a ban so the person can join the meeting again. Only the host can unban.',
+              security: [{ bearerAuth: [] }],
+              parameters: [
+                {
+                  name: 'id',
+                  in: 'path',
+                  required: true,
+                  schema: { type: 'string' },
+                  description: 'Meeting ID',
+                },
+                {
+                  name: 'banId',
+                  in: 'path',
+                  required: true,
+                  schema: { type: 'string' },
+                  description: 'Ban ID',
+                },
+              ],
+              responses: {
+                200: {
+                  description: 'Ban lifted successfully',
+                },
+                401: {
+                  description: 'Unauthorized',
+                },
+                403: {
+                  description: 'Forbidden',
+                },
+                404: {
+                  description: 'Meeting or ban not found',
+                },
+              },
+            },
+          },
+
+          // Role endpoints
+          '/v1/meetings/{id}/roles': {
+            get: {
+              tags: ['Roles'],
+              summary: 'List custom roles',
+              description:
+                'Retrieve the custom roles of the meeting and their capabilities.',
+              security: [{ bearerAuth: [] }],
+              parameters: [
+                {
+                  name: 'id',
+                  in: 'path',
+                  required: true,
+                  schema: { type: 'string' },
+                  description: 'Meeting ID',
+                },
+              ],
+              responses: {
+                200: {
+                  description: 'Roles retrieved successfully',
+                },
+                401: {
+                  description: 'Unauthorized',
+                },
+                403: {
+                  description: 'Forbidden',
+                },
+                404: {
+                  description: 'Meeting not found',
+                },
+              },
+            },
+            post: {
+              tags: ['Roles'],
+              summary: 'Create custom role',
+              description:
+                'Define a meeting role with its own capabilities. Requires the manageRoles capability.',
+              security: [{ bearerAuth: [] }],
+              parameters: [
+                {
+                  name: 'id',
+                  in: 'path',
+                  required: true,
+                  schema: { type: 'string' },
+                  description: 'Meeting ID',
+                },
+              ],
+              responses: {
+                201: {
+                  description: 'Role created successfully',
+                },
+                400: {
+                  description: 'Validation error',
+                },
+                401: {
+                  description: 'Unauthorized',
+                },
+                403: {
+                  description: 'Forbidden',
+                },
+                404: {
+                  description: 'Meeting not found',
+                },
+                409: {
+                  description: 'Role name taken',
+                },
+              },
+            },
+          },
+          '/v1/meetings/{id}/roles/{roleId}': {
+            patch: {
+              tags: ['Roles'],
+              summary: 'Update custom role',
+              description:
+                'Rename a custom role or replace its capabilities. Requires the manageRoles capability.',
+              security: [{ bearerAuth: [] }],
+              parameters: [
+                {
+                  name: 'id',
+                  in: 'path',
+                  required: true,
+                  schema: { type: 'string' },
+                  description: 'Meeting ID',
+                },
+                {
+                  name: 'roleId',
+                  in: 'path',
+                  required: true,
+                  schema: { type: 'string' },
+                  description: 'Role ID',
+                },
+              ],
+              responses: {
+                200: {
+                  description: 'Role updated successfully',
+                },
+                400: {
+                  description: 'Validation error',
+                },
+                401: {
+                  description: 'Unauthorized',
+                },
+                403: {
+                  description: 'Forbidden',
+                },
+                404: {
+                  description: 'Meeting or role not found',
+                },
+                409: {
+                  description: 'Role name taken',
+                },
+              },
+            },
+            delete: {
+              tags: ['Roles'],
+              summary: 'Delete custom role',
+              description:
+                'Delete a custom role; participants holding it fall back to their built-in role. Requires the manageRoles capability.',
+              security: [{ bearerAuth: [] }],
+              parameters: [
+                {
+                  name: 'id',
+                  in: 'path',
+                  required: true,
+                  schema: { type: 'string' },
+                  description: 'Meeting ID',
+                },
+                {
+                  name: 'roleId',
+                  in: 'path',
+                  required: true,
+                  schema: { type: 'string' },
+                  description: 'Role ID',
+                },
+              ],
+              responses: {
+                200: {
+                  description: 'Role deleted successfully',
+                },
+                401: {
+                  description: 'Unauthorized',
+                },
+                403: {
+                  description: 'Forbidden',
+                },
+                404: {
+                  description: 'Meeting or role not found',
+                },
+              },
+            },
+          },
+
           // User endpoints
           '/v1/me': {
             patch: {
@@ -643,6 +1080,7 @@ function createApp() {
                 title: { type: 'string' },
                 hostId: { type: 'string' },
                 scheduledAt: { type: 'string', format: 'date-time' },
+                settings: { type: 'object' },
                 createdAt: { type: 'string', format: 'date-time' },
                 isActive: { type: 'boolean' },
               },
@@ -676,6 +1114,18 @@ function createApp() {
             name: 'Users',
             description: 'User profile and settings management endpoints',
           },
+          {
+            name: 'Chat',
+            description: 'Meeting chat history endpoints',
+          },
+          {
+            name: 'Bans',
+            description: 'Meeting ban management endpoints',
+          },
+          {
+            name: 'Roles',
+            description: 'Custom meeting role management endpoints',
+          },
         ],
       };
     })
@@ -691,6 +1141,9 @@ function createApp() {
     .use(meetingsController)
     .use(invitesController)
     .use(usersController)
+    .use(chatController)
+    .use(bansController)
+    .use(rolesController)
     .use(wsGateway);
 }
 
@@ -714,6 +1167,10 @@ try {
       }
     }
   );
+
+  roomRoster.startHeartbeat();
+  wsState.start();
+  heartbeatSweeper.start();
 } catch (error) {
   console.error('❌ Failed to initialize server:', error);
   console.error('\n🔍 Common issues and solutions:');
@@ -745,6 +1202,9 @@ const gracefulShutdown = (signal: string) => {
   console.log(`\n🛑 Received ${signal}. Starting graceful shutdown...`);
 
   try {
+    roomRoster.stopHeartbeat();
+    wsState.stop();
+    heartbeatSweeper.stop();
     app.stop();
     console.log('✅ Server closed successfully');
     process.exit(0);
@@ -0,0 +1,264 @@
+import { Elysia, t } from 'elysia';
+import { jwt } from '../plugins/jwt';
+import { bansService } from './service';
+import { parseBearerToken } from '../common/http';
+import { errors } from '../common/errors';
+import { requireCapability } from '../common/permissions';
+import type { AccessTokenPayload } from '../auth/types';
+import { meetingsService } from '../meetings/service';
+
+export const bansController = new Elysia({ prefix: '/v1' })
+  .use(jwt)
+  .get(
+    '/meetings/:id/bans',
+    async ({ params, headers, access }) => {
+      const token = parseBearerToken(headers.authorization);
+      if (!token) {
+        throw errors.auth.unauthorized();
+      }
+
+      const payload = (await access.verify(token)) as
+        | AccessTokenPayload
+        | false;
+      if (!payload) {
+        throw errors.auth.invalidToken();
+      }
+
+      await meetingsService.findById(params.id, payload.sub);
+      requireCapability(
+        await meetingsService.getCapabilities(params.id, payload.sub),
+        'manageMeeting'
+      );
+
+      const bans = await bansService.findByMeeting(params.id);
+      return { bans };
+    },
+    {
+      params: t.Object({ id: t.String() }),
+      detail: {
+        tags: ['Bans'],
+        summary: 'List meeting bans',
+        description: 'Retrieve everyone banned from the meeting after being removed by a moderator. Only the meeting host can access this information.',
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          {
+            name: 'id',
+            in: 'path',
+            required: true,
+            schema: { type: 'string' },
+            description: 'Meeting ID',
+            example: 'meeting-id-123'
+          }
+        ],
+        responses: {
+          200: {
+            description: 'Bans retrieved successfully',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/BanListResponse' }
+              }
+            }
+          },
+          401: {
+            description: 'Unauthorized',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Error' },
+                examples: {
+                  unauthorized: {
+                    value: {
+                      type: 'auth/unauthorized',
+                      title: 'Unauthorized',
+                      detail: 'You must be logged in to access this resource',
+                      status: 401
+                    }
+                  },
+                  invalidToken: {
+                    value: {
+                      type: 'auth/invalid-token',
+                      title: 'Invalid Token',
+                      detail: 'The provided token is invalid',
+                      status: 401
+                    }
+                  }
+                }
+              }
+            }
+          },
+          403: {
+            description: 'Forbidden',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Error' },
+                examples: {
+                  forbidden: {
+                    value: {
+                      type: 'meeting/forbidden',
+                      title: 'Meeting Access Forbidden',
+                      detail: 'Only the meeting host can manage bans',
+                      status: 403
+                    }
+                  }
+                }
+              }
+            }
+          },
+          404: {
+            description: 'Meeting not found',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Error' },
+                examples: {
+                  notFound: {
+                    value: {
+                      type: 'meeting/not-found',
+                      title: 'Meeting Not Found',
+                      detail: 'The requested meeting does not exist',
+                      status: 404
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      },
+    }
+  )
+  .delete(
+    '/meetings/:id/bans/:banId',
+    async ({ params, headers, access }) => {
+      const token = parseBearerToken(headers.authorization);
+      if (!token) {
+        throw errors.auth.unauthorized();
+      }
+
+      const payload = (await access.verify(token)) as
+        | AccessTokenPayload
+        | false;
+      if (!payload) {
+        throw errors.auth.invalidToken();
+      }
+
+      await meetingsService.findById(params.id, payload.sub);
+      requireCapability(
+        await meetingsService.getCapabilities(params.id, payload.sub),
+        'manageMeeting'
+      );
+
+      await bansService.remove(params.id, params.banId);
+      return { success: true };
+    },
+    {
+      params: t.Object({ id: t.String(), banId: t.String() }),
+      detail: {
+        tags: ['Bans'],
+        summary: 'Unban a participant',
+        description: 'Lift a ban so the person can request a room token and join the meeting again. Only the meeting host can unban.',
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          {
+            name: 'id',
+            in: 'path',
+            required: true,
+            schema: { type: 'string' },
+            description: 'Meeting ID',
+            example: 'meeting-id-123'
+          },
+          {
+            name: 'banId',
+            in: 'path',
+            required: true,
+            schema: { type: 'string' },
+            description: 'Ban ID',
+            example: 'ban-id-123'
+          }
+        ],
+        responses: {
+          200: {
+            description: 'Ban lifted successfully',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    success: { type: 'boolean', example: true }
+                  }
+                }
+              }
+            }
+          },
+          401: {
+            description: 'Unauthorized',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Error' },
+                examples: {
+                  unauthorized: {
+                    value: {
+                      type: 'auth/unauthorized',
+                      title: 'Unauthorized',
+                      detail: 'You must be logged in to access this resource',
+                      status: 401
+                    }
+                  },
+                  invalidToken: {
+                    value: {
+                      type: 'auth/invalid-token',
+                      title: 'Invalid Token',
+                      detail: 'The provided token is invalid',
+                      status: 401
+                    }
+                  }
+                }
+              }
+            }
+          },
+          403: {
+            description: 'Forbidden',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Error' },
+                examples: {
+                  forbidden: {
+                    value: {
+                      type: 'meeting/forbidden',
+                      title: 'Meeting Access Forbidden',
+                      detail: 'Only the meeting host can manage bans',
+                      status: 403
+                    }
+                  }
+                }
+              }
+            }
+          },
+          404: {
+            description: 'Meeting not found or ban not found',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Error' },
+                examples: {
+                  notFound: {
+                    value: {
+                      type: 'meeting/not-found',
+                      title: 'Meeting Not Found',
+                      detail: 'The requested meeting does not exist',
+                      status: 404
+                    }
+                  },
+                  banNotFound: {
+                    value: {
+                      type: 'ban/not-found',
+                      title: 'Ban Not Found',
+                      detail: 'The requested ban does not exist',
+                      status: 404
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      },
+    }
+  );
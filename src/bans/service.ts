@@ -0,0 +1,85 @@
+import { eq, and, or, desc } from 'drizzle-orm';
+import { db } from '../db/client';
+import { meetingBans, participants } from '../db/schema';
+import { errors } from '../common/errors';
+
+export type BanSubject = {
+  participantId?: string | null;
+  userId?: string | null;
+  fingerprint?: string | null;
+};
+
+export class BansService {
+  // Ban a participant, along with their account or guest fingerprint, so a
+  // fresh room token does not get them back in
+  async create(
+    meetingId: string,
+    participantId: string,
+    bannedBy: string,
+    reason?: string
+  ) {
+    const participant = await db.query.participants.findFirst({
+      where: eq(participants.id, participantId),
+      with: {
+        user: true,
+      },
+    });
+
+    const [ban] = await db
+      .insert(meetingBans)
+      .values({
+        meetingId,
+        participantId,
+        userId: participant?.userId ?? null,
+        fingerprint: participant?.fingerprint ?? null,
+        displayName: participant?.user?.displayName ?? null,
+        reason: reason ?? null,
+        bannedBy,
+      })
+      .returning();
+
+    return ban;
+  }
+
+  async findByMeeting(meetingId: string) {
+    return db.query.meetingBans.findMany({
+      where: eq(meetingBans.meetingId, meetingId),
+      orderBy: desc(meetingBans.createdAt),
+    });
+  }
+
+  async findMatch(meetingId: string, subject: BanSubject) {
+    const matches = [];
+    if (subject.participantId) {
+      matches.push(eq(meetingBans.participantId, subject.participantId));
+    }
+    if (subject.userId) {
+      matches.push(eq(meetingBans.userId, subject.userId));
+    }
+    if (subject.fingerprint) {
+      matches.push(eq(meetingBans.fingerprint, subject.fingerprint));
+    }
+    if (matches.length === 0) return undefined;
+
+    return db.query.meetingBans.findFirst({
+      where: and(eq(meetingBans.meetingId, meetingId), or(...matches)),
+    });
+  }
+
+  async remove(meetingId: string, banId: string) {
+    const [ban] = await db
+      .delete(meetingBans)
+      .where(
+        and(eq(meetingBans.id, banId), eq(meetingBans.meetingId, meetingId))
+      )
+      .returning();
+
+    if (!ban) {
+      throw errors.ban.notFound();
+    }
+
+    return ban;
+  }
+}
+
+export const bansService = new BansService();
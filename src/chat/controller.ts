@@ -0,0 +1,160 @@
+import { Elysia, t } from 'elysia';
+import { jwt } from '../plugins/jwt';
+import { chatService } from './service';
+import { meetingsService } from '../meetings/service';
+import { parseBearerToken } from '../common/http';
+import { errors } from '../common/errors';
+import { can } from '../common/permissions';
+import {
+  cursorPaginationSchema,
+  createCursorPaginatedResponse,
+} from '../common/pagination';
+import type { AccessTokenPayload } from '../auth/types';
+
+export const chatController = new Elysia({ prefix: '/v1' })
+  .use(jwt)
+  .get(
+    '/meetings/:id/messages',
+    async ({ params, query, headers, access }) => {
+      const token = parseBearerToken(headers.authorization);
+      if (!token) {
+        throw errors.auth.unauthorized();
+      }
+
+      const payload = (await access.verify(token)) as
+        | AccessTokenPayload
+        | false;
+      if (!payload) {
+        throw errors.auth.invalidToken();
+      }
+
+      // Only the host and participants of the meeting may read its chat
+      await meetingsService.findById(params.id, payload.sub);
+      const participant = await meetingsService.findUserParticipant(
+        params.id,
+        payload.sub
+      );
+
+      const { messages, nextCursor } = await chatService.findPage(
+        params.id,
+        {
+          participantId: participant?.id,
+          moderator: can(
+            await meetingsService.getCapabilities(params.id, payload.sub),
+            'moderate'
+          ),
+        },
+        query
+      );
+
+      return createCursorPaginatedResponse(
+        messages.map(message => chatService.serialize(message)),
+        nextCursor
+      );
+    },
+    {
+      params: t.Object({ id: t.String() }),
+      query: cursorPaginationSchema,
+      detail: {
+        tags: ['Chat'],
+        summary: 'List chat messages',
+        description: 'Retrieve the chat history of a meeting, oldest first. Without a cursor the newest page is returned; pass `meta.nextCursor` as `before` to load older messages, or a message id as `after` to load newer ones. Only the host and participants of the meeting can read its chat.',
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          {
+            name: 'id',
+            in: 'path',
+            required: true,
+            schema: { type: 'string' },
+            description: 'Meeting ID',
+            example: 'meeting-id-123'
+          },
+          {
+            name: 'before',
+            in: 'query',
+            schema: { type: 'string' },
+            description: 'Return messages older than this message id',
+            example: '01HZX3K5Q8W9E7R6T5Y4U3I2O1'
+          },
+          {
+            name: 'after',
+            in: 'query',
+            schema: { type: 'string' },
+            description: 'Return messages newer than this message id',
+            example: '01HZX3K5Q8W9E7R6T5Y4U3I2O1'
+          },
+          {
+            name: 'limit',
+            in: 'query',
+            schema: { type: 'integer', minimum: 1, maximum: 100 },
+            description: 'Maximum number of messages to return (default: 50)',
+            example: 50
+          }
+        ],
+        responses: {
+          200: {
+            description: 'Chat messages retrieved successfully',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/ChatMessageListResponse' }
+              }
+            }
+          },
+          401: {
+            description: 'Unauthorized',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Error' },
+                examples: {
+                  unauthorized: {
+                    value: {
+                      type: 'auth/unauthorized',
+                      title: 'Unauthorized',
+                      detail: 'You must be logged in to access this resource',
+                      status: 401
+                    }
+                  }
+                }
+              }
+            }
+          },
+          403: {
+            description: 'Forbidden',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Error' },
+                examples: {
+                  forbidden: {
+                    value: {
+                      type: 'meeting/forbidden',
+                      title: 'Meeting Access Forbidden',
+                      detail: 'You do not have access to this meeting',
+                      status: 403
+                    }
+                  }
+                }
+              }
+            }
+          },
+          404: {
+            description: 'Meeting not found',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Error' },
+                examples: {
+                  notFound: {
+                    value: {
+                      type: 'meeting/not-found',
+                      title: 'Meeting Not Found',
+                      detail: 'The requested meeting does not exist',
+                      status: 404
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      },
+    }
+  );
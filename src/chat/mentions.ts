@@ -0,0 +1,52 @@
+export type MentionCandidate = {
+  participantId: string;
+  displayName: string;
+};
+
+const wordChar = /[\p{L}\p{N}_]/u;
+
+// Finds `@Display Name` mentions of people in the room, case-insensitively.
+// Longer names are matched first so "@Ann Lee" is not also read as a mention
+// of "Ann"; participants sharing a display name are all mentioned.
+export const resolveMentions = (
+  text: string,
+  candidates: MentionCandidate[]
+): string[] => {
+  const byName = new Map<string, string[]>();
+  for (const { participantId, displayName } of candidates) {
+    const name = displayName.trim().toLowerCase();
+    if (!name) continue;
+    byName.set(name, [...(byName.get(name) ?? []), participantId]);
+  }
+
+  const haystack = text.toLowerCase();
+  const taken: Array<[number, number]> = [];
+  const mentioned = new Set<string>();
+  const names = [...byName.keys()].sort((a, b) => b.length - a.length);
+
+  for (const name of names) {
+    const needle = `@${name}`;
+    let index = haystack.indexOf(needle);
+
+    while (index !== -1) {
+      const end = index + needle.length;
+      // Neither glued to a preceding word, as in "x@bob.com", nor the start
+      // of a longer word
+      const atBoundary =
+        (index === 0 || !wordChar.test(haystack[index - 1])) &&
+        (end === haystack.length || !wordChar.test(haystack[end]));
+      const overlaps = taken.some(
+        ([start, stop]) => index < stop && end > start
+      );
+
+      if (atBoundary && !overlaps) {
+        taken.push([index, end]);
+        byName.get(name)!.forEach(id => mentioned.add(id));
+      }
+
+      index = haystack.indexOf(needle, end);
+    }
+  }
+
+  return [...mentioned];
+};
@@ -0,0 +1,30 @@
+export type ReactionRecord = {
+  emoji: string;
+  participantId: string;
+};
+
+export type ReactionSummary = {
+  emoji: string;
+  count: number;
+  participantIds: string[];
+};
+
+// Groups individual reactions by emoji, in the order each emoji was first used
+export const aggregateReactions = (
+  reactions: ReactionRecord[]
+): ReactionSummary[] => {
+  const summaries = new Map<string, ReactionSummary>();
+
+  for (const { emoji, participantId } of reactions) {
+    const summary = summaries.get(emoji) ?? {
+      emoji,
+      count: 0,
+      participantIds: [],
+    };
+    summary.count += 1;
+    summary.participantIds.push(participantId);
+    summaries.set(emoji, summary);
+  }
+
+  return [...summaries.values()];
+};
@@ -0,0 +1,251 @@
+import {
+  eq,
+  ne,
+  and,
+  or,
+  lt,
+  gt,
+  asc,
+  desc,
+  isNull,
+  count,
+  sql,
+} from 'drizzle-orm';
+import { db } from '../db/client';
+import { chatMessages, chatReactions } from '../db/schema';
+import {
+  toCursorPage,
+  type CursorPaginationParams,
+} from '../common/pagination';
+import { aggregateReactions } from './reactions';
+
+export type ChatMessageRow = typeof chatMessages.$inferSelect;
+type ChatReactionRow = typeof chatReactions.$inferSelect;
+type ChatMessageWithReactions = ChatMessageRow & {
+  reactions?: ChatReactionRow[];
+};
+export type ChatAudience = ChatMessageRow['audience'];
+
+export type CreateChatMessage = {
+  id: string;
+  meetingId: string;
+  participantId: string;
+  senderName: string;
+  text: string;
+  audience?: ChatAudience;
+  recipients?: string[] | null;
+  replyToId?: string | null;
+  mentions?: string[];
+  createdAt: Date;
+};
+
+// Who is reading the history. Direct messages are only visible to their
+// author and recipients, the moderators channel to hosts and cohosts.
+export type ChatViewer = {
+  participantId?: string;
+  moderator: boolean;
+};
+
+export class ChatService {
+  // Same shape as the `chat.message` WebSocket payload. The text of deleted
+  // messages is kept in the database but never sent to clients.
+  serialize(message: ChatMessageWithReactions) {
+    return {
+      id: message.id,
+      participantId: message.participantId,
+      sender: message.senderName,
+      text: message.deletedAt ? null : message.text,
+      ts: message.createdAt.toISOString(),
+      editedAt: message.editedAt?.toISOString() ?? null,
+      deletedAt: message.deletedAt?.toISOString() ?? null,
+      deletedBy: message.deletedBy,
+      redacted: Boolean(
+        message.deletedBy && message.deletedBy !== message.participantId
+      ),
+      audience: message.audience,
+      to: message.recipients,
+      replyTo: message.replyToId,
+      mentions: message.mentions,
+      reactions: aggregateReactions(message.reactions ?? []),
+    };
+  }
+
+  // In-memory counterpart of visibleTo for a single message
+  isVisibleTo(
+    message: Pick<ChatMessageRow, 'audience' | 'participantId' | 'recipients'>,
+    viewer: ChatViewer
+  ) {
+    if (message.audience === 'everyone') return true;
+    if (message.audience === 'moderators' && viewer.moderator) return true;
+    if (!viewer.participantId) return false;
+
+    return (
+      message.participantId === viewer.participantId ||
+      Boolean(message.recipients?.includes(viewer.participantId))
+    );
+  }
+
+  private visibleTo(viewer: ChatViewer) {
+    const conditions = [eq(chatMessages.audience, 'everyone')];
+
+    if (viewer.participantId) {
+      conditions.push(eq(chatMessages.participantId, viewer.participantId));
+      conditions.push(
+        sql`${chatMessages.recipients} @> ${JSON.stringify([viewer.participantId])}::jsonb`
+      );
+    }
+
+    if (viewer.moderator) {
+      conditions.push(eq(chatMessages.audience, 'moderators'));
+    }
+
+    return or(...conditions)!;
+  }
+
+  async findById(messageId: string) {
+    const message: ChatMessageRow | undefined =
+      await db.query.chatMessages.findFirst({
+        where: eq(chatMessages.id, messageId),
+      });
+
+    return message;
+  }
+
+  async edit(
+    messageId: string,
+    text: string,
+    mentions: string[],
+    editedBy: string
+  ) {
+    const [message] = await db
+      .update(chatMessages)
+      .set({ text, mentions, editedAt: new Date(), editedBy })
+      .where(eq(chatMessages.id, messageId))
+      .returning();
+
+    return message as ChatMessageRow;
+  }
+
+  async softDelete(messageId: string, deletedBy: string) {
+    const [message] = await db
+      .update(chatMessages)
+      .set({ deletedAt: new Date(), deletedBy })
+      .where(eq(chatMessages.id, messageId))
+      .returning();
+
+    return message as ChatMessageRow;
+  }
+
+  async listReactions(messageId: string) {
+    const reactions: ChatReactionRow[] = await db.query.chatReactions.findMany({
+      where: eq(chatReactions.messageId, messageId),
+      orderBy: asc(chatReactions.id),
+    });
+
+    return reactions;
+  }
+
+  async addReaction(messageId: string, participantId: string, emoji: string) {
+    await db
+      .insert(chatReactions)
+      .values({ messageId, participantId, emoji })
+      .onConflictDoNothing();
+
+    return aggregateReactions(await this.listReactions(messageId));
+  }
+
+  async removeReaction(
+    messageId: string,
+    participantId: string,
+    emoji: string
+  ) {
+    await db
+      .delete(chatReactions)
+      .where(
+        and(
+          eq(chatReactions.messageId, messageId),
+          eq(chatReactions.participantId, participantId),
+          eq(chatReactions.emoji, emoji)
+        )
+      );
+
+    return aggregateReactions(await this.listReactions(messageId));
+  }
+
+  // Messages from others the viewer can see and has not read yet
+  async countUnread(
+    meetingId: string,
+    viewer: ChatViewer & { participantId: string },
+    lastReadMessageId?: string | null
+  ) {
+    const conditions = [
+      eq(chatMessages.meetingId, meetingId),
+      ne(chatMessages.participantId, viewer.participantId),
+      isNull(chatMessages.deletedAt),
+      this.visibleTo(viewer),
+    ];
+    if (lastReadMessageId) {
+      conditions.push(gt(chatMessages.id, lastReadMessageId));
+    }
+
+    const [result] = await db
+      .select({ unread: count() })
+      .from(chatMessages)
+      .where(and(...conditions));
+
+    return result?.unread ?? 0;
+  }
+
+  async create(data: CreateChatMessage) {
+    const [message] = await db.insert(chatMessages).values(data).returning();
+    return message as ChatMessageRow;
+  }
+
+  async findRecent(meetingId: string, viewer: ChatViewer, limit: number) {
+    const messages: ChatMessageWithReactions[] =
+      await db.query.chatMessages.findMany({
+        where: and(
+          eq(chatMessages.meetingId, meetingId),
+          this.visibleTo(viewer)
+        ),
+        orderBy: desc(chatMessages.id),
+        limit,
+        with: { reactions: { orderBy: asc(chatReactions.id) } },
+      });
+
+    return messages.reverse();
+  }
+
+  // Pages through history by ulid: `before` walks back from the newest
+  // message, `after` walks forward. Messages are returned oldest first.
+  async findPage(
+    meetingId: string,
+    viewer: ChatViewer,
+    params: CursorPaginationParams
+  ) {
+    const { before, after, limit } = params;
+    const conditions = [
+      eq(chatMessages.meetingId, meetingId),
+      this.visibleTo(viewer),
+    ];
+    if (before) conditions.push(lt(chatMessages.id, before));
+    if (after) conditions.push(gt(chatMessages.id, after));
+
+    const forward = Boolean(after) && !before;
+    const rows: ChatMessageWithReactions[] =
+      await db.query.chatMessages.findMany({
+        where: and(...conditions),
+        orderBy: forward ? asc(chatMessages.id) : desc(chatMessages.id),
+        limit: limit + 1,
+        with: { reactions: { orderBy: asc(chatReactions.id) } },
+      });
+
+    const { items, nextCursor } = toCursorPage(rows, limit, forward);
+    return {
+      messages: items,
+      nextCursor,
+    };
+  }
+}
+
+export const chatService = new ChatService();
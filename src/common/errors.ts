@@ -86,6 +86,45 @@ export const errors = {
         'This meeting code is already in use',
         409
       ),
+    banned: () =>
+      new AppError(
+        'meeting/banned',
+        'Banned From Meeting',
+        'You have been removed from this meeting and cannot rejoin',
+        403
+      ),
+    guestsNotAllowed: () =>
+      new AppError(
+        'meeting/guests-not-allowed',
+        'Guests Not Allowed',
+        'Sign in to join this meeting',
+        403
+      ),
+  },
+  ban: {
+    notFound: () =>
+      new AppError(
+        'ban/not-found',
+        'Ban Not Found',
+        'The requested ban does not exist',
+        404
+      ),
+  },
+  role: {
+    notFound: () =>
+      new AppError(
+        'role/not-found',
+        'Role Not Found',
+        'The requested role does not exist',
+        404
+      ),
+    nameTaken: () =>
+      new AppError(
+        'role/name-taken',
+        'Role Name Taken',
+        'The meeting already has a role with this name',
+        409
+      ),
   },
   room: {
     invalidToken: () =>
@@ -102,6 +141,20 @@ export const errors = {
         'This meeting has already ended',
         410
       ),
+    locked: () =>
+      new AppError(
+        'room/locked',
+        'Meeting Locked',
+        'The host has locked this meeting to new participants',
+        423
+      ),
+    full: () =>
+      new AppError(
+        'room/full',
+        'Meeting Full',
+        'This meeting has reached its participant limit',
+        403
+      ),
   },
   lobby: {
     rejected: () =>
@@ -111,6 +164,13 @@ export const errors = {
         'The host has rejected your request to join',
         403
       ),
+    timedOut: () =>
+      new AppError(
+        'lobby/timeout',
+        'Lobby Timeout',
+        'Nobody admitted you to the meeting in time',
+        408
+      ),
   },
   invite: {
     notFound: () =>
@@ -7,6 +7,50 @@ export const paginationSchema = z.object({
 
 export type PaginationParams = z.infer<typeof paginationSchema>;
 
+export const cursorPaginationSchema = z.object({
+  before: z.string().optional(),
+  after: z.string().optional(),
+  limit: z
+    .string()
+    .optional()
+    .default('50')
+    .transform(Number)
+    .pipe(z.number().int().min(1).max(100)),
+});
+
+export type CursorPaginationParams = z.infer<typeof cursorPaginationSchema>;
+
+// Trims rows fetched with `limit + 1` to a page. Rows walking backwards
+// arrive newest first and are returned oldest first; the cursor is the id
+// of the last row read, from which the next page continues.
+export const toCursorPage = <T extends { id: string }>(
+  rows: T[],
+  limit: number,
+  forward: boolean
+) => {
+  const hasMore = rows.length > limit;
+  const page = rows.slice(0, limit);
+  const nextCursor = hasMore ? page[page.length - 1].id : null;
+
+  return {
+    items: forward ? page : page.reverse(),
+    nextCursor,
+  };
+};
+
+export const createCursorPaginatedResponse = <T>(
+  data: T[],
+  nextCursor: string | null
+) => {
+  return {
+    data,
+    meta: {
+      nextCursor,
+      hasMore: nextCursor !== null,
+    },
+  };
+};
+
 export const createPaginatedResponse = <T>(
   data: T[],
   total: number,
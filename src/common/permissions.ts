@@ -0,0 +1,76 @@
+import { errors } from './errors';
+import type { ParticipantRole } from './types';
+
+// What a participant may do in a meeting. Room tokens carry the grants of the
+// participant's role as `perms`; WebSocket routes and REST endpoints check
+// them with `can` and `requireCapability` instead of looking at roles.
+export const staffCapabilities = [
+  'moderate', // mute, remove or stop others' media, lock the meeting, moderator chat
+  'admit', // decide on guests waiting in the lobby
+  'manageRoles', // change roles, transfer the host role, define custom roles
+  'manageMeeting', // settings, bans and ending the meeting
+  'invite',
+  'record',
+] as const;
+
+// Taking part in the meeting. Every built-in role has these; custom roles
+// such as a webinar attendee may leave some out.
+export const participationCapabilities = [
+  'unmute', // turn the own microphone on
+  'shareScreen',
+  'chat',
+  'react', // reactions and chat message reactions
+  'seeRoster', // list of participants and their join/leave events
+] as const;
+
+export const capabilities = [
+  ...staffCapabilities,
+  ...participationCapabilities,
+] as const;
+
+export type Capability = (typeof capabilities)[number];
+export type StaffCapability = (typeof staffCapabilities)[number];
+
+// The host always holds every capability; the staff capabilities of the other
+// built-in roles can be configured per meeting through the `permissions`
+// setting
+export type ConfigurableRole = Exclude<ParticipantRole, 'host'>;
+
+export type RoleCapabilities = Record<ConfigurableRole, StaffCapability[]>;
+
+export const defaultRoleCapabilities: RoleCapabilities = {
+  cohost: ['moderate', 'admit', 'invite'],
+  guest: [],
+};
+
+// A custom role replaces the grants of the participant's built-in role
+export const resolveCapabilities = (
+  role: ParticipantRole,
+  configured: RoleCapabilities = defaultRoleCapabilities,
+  customRole?: readonly Capability[] | null
+): Capability[] => {
+  if (role === 'host') return [...capabilities];
+  if (customRole) return [...customRole];
+  return [...participationCapabilities, ...configured[role]];
+};
+
+const isCapability = (value: unknown): value is Capability =>
+  capabilities.includes(value as Capability);
+
+// Grants read from a verified token; unknown entries are dropped
+export const parseCapabilities = (perms: unknown): Capability[] =>
+  Array.isArray(perms) ? perms.filter(isCapability) : [];
+
+export const can = (
+  grants: readonly Capability[] | undefined,
+  capability: Capability
+) => Boolean(grants?.includes(capability));
+
+export const requireCapability = (
+  grants: readonly Capability[] | undefined,
+  capability: Capability
+) => {
+  if (!can(grants, capability)) {
+    throw errors.meeting.forbidden();
+  }
+};
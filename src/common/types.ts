@@ -1,3 +1,5 @@
+import type { Capability } from './permissions';
+
 export type ParticipantRole = 'host' | 'cohost' | 'guest';
 export type InviteStatus = 'pending' | 'accepted' | 'declined';
 
@@ -15,6 +17,7 @@ export type DeviceState = {
 export type WSMessage<T = any> = {
   type: string;
   requestId?: string;
+  idempotencyKey?: string;
   payload?: T;
 };
 
@@ -29,6 +32,7 @@ export type RoomTokenPayload = {
   sub: string; // participantId
   meetingId: string;
   role: ParticipantRole;
-  perms: string[];
+  customRoleId: string | null;
+  perms: Capability[];
   exp: number;
 };
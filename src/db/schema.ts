@@ -5,9 +5,13 @@ import {
   varchar,
   pgEnum,
   index,
+  uniqueIndex,
+  jsonb,
 } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
 import { ulid } from 'ulid';
+import type { MeetingSettingsPatch } from '../meetings/settings';
+import type { Capability } from '../common/permissions';
 
 // Enums
 export const participantRoleEnum = pgEnum('participant_role', [
@@ -20,6 +24,11 @@ export const inviteStatusEnum = pgEnum('invite_status', [
   'accepted',
   'declined',
 ]);
+export const chatAudienceEnum = pgEnum('chat_audience', [
+  'everyone',
+  'direct',
+  'moderators',
+]);
 
 // Users table
 export const users = pgTable('users', {
@@ -47,6 +56,11 @@ export const meetings = pgTable(
       .notNull(),
     scheduledAt: timestamp('scheduled_at'),
     endedAt: timestamp('ended_at'),
+    lockedAt: timestamp('locked_at'), // no new participants while set
+    settings: jsonb('settings')
+      .$type<MeetingSettingsPatch>()
+      .notNull()
+      .default({}),
     createdAt: timestamp('created_at').defaultNow().notNull(),
   },
   table => ({
@@ -54,6 +68,31 @@ export const meetings = pgTable(
   })
 );
 
+// Meeting roles table (custom roles a host defines next to the built-in ones)
+export const meetingRoles = pgTable(
+  'meeting_roles',
+  {
+    id: varchar('id', { length: 26 })
+      .primaryKey()
+      .$defaultFn(() => ulid()),
+    meetingId: varchar('meeting_id', { length: 26 })
+      .references(() => meetings.id, { onDelete: 'cascade' })
+      .notNull(),
+    name: varchar('name', { length: 50 }).notNull(),
+    capabilities: jsonb('capabilities')
+      .$type<Capability[]>()
+      .notNull()
+      .default([]),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  table => ({
+    meetingNameIdx: uniqueIndex('meeting_roles_meeting_name_idx').on(
+      table.meetingId,
+      table.name
+    ),
+  })
+);
+
 // Participants table
 export const participants = pgTable(
   'participants',
@@ -68,8 +107,14 @@ export const participants = pgTable(
       onDelete: 'cascade',
     }),
     role: participantRoleEnum('role').notNull().default('guest'),
+    customRoleId: varchar('custom_role_id', { length: 26 }).references(
+      () => meetingRoles.id,
+      { onDelete: 'set null' }
+    ), // replaces the grants of `role` while set
     joinedAt: timestamp('joined_at').defaultNow().notNull(),
     leftAt: timestamp('left_at'),
+    lastReadMessageId: varchar('last_read_message_id', { length: 26 }), // chat message id
+    fingerprint: varchar('fingerprint', { length: 255 }), // client device id for guests
   },
   table => ({
     meetingIdx: index('participants_meeting_idx').on(table.meetingId),
@@ -91,6 +136,92 @@ export const invites = pgTable('invites', {
   createdAt: timestamp('created_at').defaultNow().notNull(),
 });
 
+// Chat messages table (ids are ulids, so ordering by id is chronological)
+export const chatMessages = pgTable(
+  'chat_messages',
+  {
+    id: varchar('id', { length: 26 })
+      .primaryKey()
+      .$defaultFn(() => ulid()),
+    meetingId: varchar('meeting_id', { length: 26 })
+      .references(() => meetings.id, { onDelete: 'cascade' })
+      .notNull(),
+    participantId: varchar('participant_id', { length: 26 })
+      .references(() => participants.id, { onDelete: 'cascade' })
+      .notNull(),
+    senderName: varchar('sender_name', { length: 255 }).notNull(),
+    text: text('text').notNull(),
+    audience: chatAudienceEnum('audience').notNull().default('everyone'),
+    recipients: jsonb('recipients').$type<string[]>(), // participantIds of a direct message
+    replyToId: varchar('reply_to_id', { length: 26 }), // chat message id
+    mentions: jsonb('mentions').$type<string[]>().notNull().default([]), // participantIds
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    editedAt: timestamp('edited_at'),
+    editedBy: varchar('edited_by', { length: 26 }), // participantId
+    deletedAt: timestamp('deleted_at'),
+    deletedBy: varchar('deleted_by', { length: 26 }), // participantId, author or moderator
+  },
+  table => ({
+    meetingIdx: index('chat_messages_meeting_idx').on(
+      table.meetingId,
+      table.id
+    ),
+  })
+);
+
+// Chat reactions table (one row per participant and emoji)
+export const chatReactions = pgTable(
+  'chat_reactions',
+  {
+    id: varchar('id', { length: 26 })
+      .primaryKey()
+      .$defaultFn(() => ulid()),
+    messageId: varchar('message_id', { length: 26 })
+      .references(() => chatMessages.id, { onDelete: 'cascade' })
+      .notNull(),
+    participantId: varchar('participant_id', { length: 26 })
+      .references(() => participants.id, { onDelete: 'cascade' })
+      .notNull(),
+    emoji: varchar('emoji', { length: 32 }).notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  table => ({
+    uniqueReaction: uniqueIndex('chat_reactions_unique_idx').on(
+      table.messageId,
+      table.participantId,
+      table.emoji
+    ),
+  })
+);
+
+// Meeting bans table (a ban matches on any of userId, fingerprint, participantId)
+export const meetingBans = pgTable(
+  'meeting_bans',
+  {
+    id: varchar('id', { length: 26 })
+      .primaryKey()
+      .$defaultFn(() => ulid()),
+    meetingId: varchar('meeting_id', { length: 26 })
+      .references(() => meetings.id, { onDelete: 'cascade' })
+      .notNull(),
+    userId: varchar('user_id', { length: 26 }).references(() => users.id, {
+      onDelete: 'cascade',
+    }),
+    fingerprint: varchar('fingerprint', { length: 255 }),
+    participantId: varchar('participant_id', { length: 26 }).references(
+      () => participants.id,
+      { onDelete: 'set null' }
+    ),
+    displayName: varchar('display_name', { length: 255 }),
+    reason: varchar('reason', { length: 255 }),
+    bannedBy: varchar('banned_by', { length: 26 }), // participantId
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  table => ({
+    meetingIdx: index('meeting_bans_meeting_idx').on(table.meetingId),
+  })
+);
+
 // Refresh tokens table
 export const refreshTokens = pgTable(
   'refresh_tokens',
@@ -125,6 +256,16 @@ export const meetingsRelations = relations(meetings, ({ one, many }) => ({
   }),
   participants: many(participants),
   invites: many(invites),
+  chatMessages: many(chatMessages),
+  bans: many(meetingBans),
+  roles: many(meetingRoles),
+}));
+
+export const meetingRolesRelations = relations(meetingRoles, ({ one }) => ({
+  meeting: one(meetings, {
+    fields: [meetingRoles.meetingId],
+    references: [meetings.id],
+  }),
 }));
 
 export const participantsRelations = relations(participants, ({ one }) => ({
@@ -136,6 +277,10 @@ export const participantsRelations = relations(participants, ({ one }) => ({
     fields: [participants.userId],
     references: [users.id],
   }),
+  customRole: one(meetingRoles, {
+    fields: [participants.customRoleId],
+    references: [meetingRoles.id],
+  }),
 }));
 
 export const invitesRelations = relations(invites, ({ one }) => ({
@@ -145,6 +290,39 @@ export const invitesRelations = relations(invites, ({ one }) => ({
   }),
 }));
 
+export const chatMessagesRelations = relations(
+  chatMessages,
+  ({ one, many }) => ({
+    meeting: one(meetings, {
+      fields: [chatMessages.meetingId],
+      references: [meetings.id],
+    }),
+    participant: one(participants, {
+      fields: [chatMessages.participantId],
+      references: [participants.id],
+    }),
+    reactions: many(chatReactions),
+  })
+);
+
+export const meetingBansRelations = relations(meetingBans, ({ one }) => ({
+  meeting: one(meetings, {
+    fields: [meetingBans.meetingId],
+    references: [meetings.id],
+  }),
+}));
+
+export const chatReactionsRelations = relations(chatReactions, ({ one }) => ({
+  message: one(chatMessages, {
+    fields: [chatReactions.messageId],
+    references: [chatMessages.id],
+  }),
+  participant: one(participants, {
+    fields: [chatReactions.participantId],
+    references: [participants.id],
+  }),
+}));
+
 export const refreshTokensRelations = relations(refreshTokens, ({ one }) => ({
   user: one(users, {
     fields: [refreshTokens.userId],
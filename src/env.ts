@@ -22,6 +22,18 @@ const envSchema = z.object({
   REFRESH_TTL_SEC: z.string().default('2592000').transform(Number),
   ROOM_TOKEN_TTL_SEC: z.string().default('120').transform(Number),
   CORS_ORIGIN: z.string().url(),
+  NODE_HEARTBEAT_TTL_SEC: z.string().default('15').transform(Number),
+  WS_DISCONNECT_GRACE_MS: z.string().default('15000').transform(Number),
+  WS_HEARTBEAT_INTERVAL_MS: z.string().default('10000').transform(Number),
+  WS_HEARTBEAT_MAX_MISSED: z.string().default('3').transform(Number),
+  CHAT_HISTORY_ON_JOIN: z.string().default('50').transform(Number),
+  CHAT_TYPING_TIMEOUT_MS: z.string().default('5000').transform(Number),
+  CHAT_TYPING_THROTTLE_MS: z.string().default('2000').transform(Number),
+  LOBBY_TIMEOUT_MS: z.string().default('600000').transform(Number),
+  MEDIA_REQUEST_TIMEOUT_MS: z.string().default('60000').transform(Number),
+  WS_RATE_LIMITS: z.string().optional(),
+  WS_RATE_LIMIT_STRIKES: z.string().default('0').transform(Number),
+  WS_RATE_LIMIT_PENALTY: z.enum(['none', 'mute', 'kick']).default('none'),
 });
 
 export const env = envSchema.parse(process.env);
@@ -4,6 +4,7 @@ import { jwt } from '../plugins/jwt';
 import { invitesService } from './service';
 import { parseBearerToken } from '../common/http';
 import { errors } from '../common/errors';
+import { requireCapability } from '../common/permissions';
 import type { AccessTokenPayload } from '../auth/types';
 import { meetingsService } from '../meetings/service';
 
@@ -29,10 +30,16 @@ export const invitesController = new Elysia({ prefix: '/v1' })
         throw errors.auth.invalidToken();
       }
 
-      // Check if user is host
-      const meeting = await meetingsService.findById(params.id, payload.sub);
-      if (meeting.hostId !== payload.sub) {
-        throw errors.meeting.forbidden();
+      await meetingsService.findById(params.id, payload.sub);
+      const grants = await meetingsService.getCapabilities(
+        params.id,
+        payload.sub
+      );
+      requireCapability(grants, 'invite');
+
+      // Inviting someone as cohost hands out a role
+      if (body.role !== 'guest') {
+        requireCapability(grants, 'manageRoles');
       }
 
       const invite = await invitesService.create(
@@ -176,11 +183,11 @@ export const invitesController = new Elysia({ prefix: '/v1' })
         throw errors.auth.invalidToken();
       }
 
-      // Check if user is host
-      const meeting = await meetingsService.findById(params.id, payload.sub);
-      if (meeting.hostId !== payload.sub) {
-        throw errors.meeting.forbidden();
-      }
+      await meetingsService.findById(params.id, payload.sub);
+      requireCapability(
+        await meetingsService.getCapabilities(params.id, payload.sub),
+        'invite'
+      );
 
       const invites = await invitesService.findByMeeting(params.id);
       return { invites };
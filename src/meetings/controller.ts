@@ -6,11 +6,17 @@ import {
   resolveCodeDto,
   roomTokenDto,
   getMeetingsQueryDto,
+  updateMeetingSettingsDto,
 } from './dto';
 import { parseBearerToken } from '../common/http';
 import { errors } from '../common/errors';
 import type { AccessTokenPayload } from '../auth/types';
 import type { RoomTokenPayload } from '../common/types';
+import { requireCapability } from '../common/permissions';
+import { resolveMeetingSettings } from './settings';
+import { roomRoster } from '../ws/roster';
+import { closeEndedMeeting } from '../ws/handlers/room';
+import { applySettings } from '../ws/handlers/moderation';
 import { env } from '../env';
 
 export const meetingsController = new Elysia({ prefix: '/v1/meetings' })
@@ -401,7 +407,7 @@ export const meetingsController = new Elysia({ prefix: '/v1/meetings' })
   )
   .post(
     '/:id/room-token',
-    async ({ params, body: _body, headers, access, room }) => {
+    async ({ params, body, headers, access, room }) => {
       const token = parseBearerToken(headers.authorization);
 
       let userId: string | null = null;
@@ -422,12 +428,20 @@ export const meetingsController = new Elysia({ prefix: '/v1/meetings' })
       // Check if user can join
       const canJoin = await meetingsService.canUserJoin(
         params.id,
-        userId || undefined
+        userId || undefined,
+        body.fingerprint,
+        async participantId =>
+          Boolean(await roomRoster.get(params.id, participantId))
       );
       if (!canJoin) {
         throw errors.meeting.forbidden();
       }
 
+      const settings = resolveMeetingSettings(meeting.settings);
+      if (!userId && !settings.allowGuests) {
+        throw errors.meeting.guestsNotAllowed();
+      }
+
       // Determine role
       if (userId && meeting.hostId === userId) {
         role = 'host';
@@ -437,15 +451,33 @@ export const meetingsController = new Elysia({ prefix: '/v1/meetings' })
       const participant = await meetingsService.getOrCreateParticipant(
         params.id,
         userId,
-        role
+        role,
+        body.fingerprint
       );
 
+      // room.join checks again, but a full meeting is better known up front
+      if (
+        settings.maxParticipants !== null &&
+        participant.role !== 'host' &&
+        !(await roomRoster.hasRoomFor(
+          params.id,
+          participant.id,
+          settings.maxParticipants
+        ))
+      ) {
+        throw errors.room.full();
+      }
+
       // Generate room token
       const roomTokenPayload: RoomTokenPayload = {
         sub: participant.id,
         meetingId: params.id,
         role: participant.role,
-        perms: role === 'host' ? ['moderate', 'invite', 'record'] : [],
+        customRoleId: participant.customRoleId,
+        perms: await meetingsService.resolveParticipantCapabilities(
+          params.id,
+          participant
+        ),
         exp: Math.floor(Date.now() / 1000) + env.ROOM_TOKEN_TTL_SEC,
       };
 
@@ -533,6 +565,177 @@ export const meetingsController = new Elysia({ prefix: '/v1/meetings' })
               }
             }
           },
+          403: {
+            description: 'Forbidden',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Error' },
+                examples: {
+                  forbidden: {
+                    value: {
+                      type: 'meeting/forbidden',
+                      title: 'Meeting Access Forbidden',
+                      detail: 'You do not have access to this meeting',
+                      status: 403
+                    }
+                  },
+                  banned: {
+                    value: {
+                      type: 'meeting/banned',
+                      title: 'Banned From Meeting',
+                      detail: 'You have been removed from this meeting and cannot rejoin',
+                      status: 403
+                    }
+                  },
+                  guestsNotAllowed: {
+                    value: {
+                      type: 'meeting/guests-not-allowed',
+                      title: 'Guests Not Allowed',
+                      detail: 'Sign in to join this meeting',
+                      status: 403
+                    }
+                  },
+                  full: {
+                    value: {
+                      type: 'room/full',
+                      title: 'Meeting Full',
+                      detail: 'This meeting has reached its participant limit',
+                      status: 403
+                    }
+                  }
+                }
+              }
+            }
+          },
+          404: {
+            description: 'Meeting not found',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Error' },
+                examples: {
+                  notFound: {
+                    value: {
+                      type: 'meeting/not-found',
+                      title: 'Meeting Not Found',
+                      detail: 'The requested meeting does not exist',
+                      status: 404
+                    }
+                  }
+                }
+              }
+            }
+          },
+          410: {
+            description: 'Meeting already ended',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Error' },
+                examples: {
+                  alreadyEnded: {
+                    value: {
+                      type: 'room/already-ended',
+                      title: 'Meeting Ended',
+                      detail: 'This meeting has already ended',
+                      status: 410
+                    }
+                  }
+                }
+              }
+            }
+          },
+          423: {
+            description: 'Meeting locked',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Error' },
+                examples: {
+                  locked: {
+                    value: {
+                      type: 'room/locked',
+                      title: 'Meeting Locked',
+                      detail: 'The host has locked this meeting to new participants',
+                      status: 423
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      },
+    }
+  )
+  .get(
+    '/:id/settings',
+    async ({ params, headers, access }) => {
+      const token = parseBearerToken(headers.authorization);
+      if (!token) {
+        throw errors.auth.unauthorized();
+      }
+
+      const payload = (await access.verify(token)) as
+        | AccessTokenPayload
+        | false;
+      if (!payload) {
+        throw errors.auth.invalidToken();
+      }
+
+      await meetingsService.findById(params.id, payload.sub);
+
+      const settings = await meetingsService.getSettings(params.id);
+      return { settings };
+    },
+    {
+      params: t.Object({
+        id: t.String(),
+      }),
+      detail: {
+        tags: ['Meetings'],
+        summary: 'Get meeting settings',
+        description: 'Get the full settings of a meeting, with defaults filled in for options the host never changed. User must be a participant or host of the meeting.',
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          {
+            name: 'id',
+            in: 'path',
+            required: true,
+            schema: { type: 'string' },
+            description: 'Meeting ID',
+            example: 'meeting-id-123'
+          }
+        ],
+        responses: {
+          200: {
+            description: 'Settings retrieved successfully',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    settings: { $ref: '#/components/schemas/MeetingSettings' }
+                  }
+                }
+              }
+            }
+          },
+          401: {
+            description: 'Unauthorized',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Error' },
+                examples: {
+                  unauthorized: {
+                    value: {
+                      type: 'auth/unauthorized',
+                      title: 'Unauthorized',
+                      detail: 'You must be logged in to access this resource',
+                      status: 401
+                    }
+                  }
+                }
+              }
+            }
+          },
           403: {
             description: 'Forbidden',
             content: {
@@ -572,4 +775,289 @@ export const meetingsController = new Elysia({ prefix: '/v1/meetings' })
         }
       },
     }
+  )
+  .patch(
+    '/:id/settings',
+    async ({ params, body, headers, access }) => {
+      const token = parseBearerToken(headers.authorization);
+      if (!token) {
+        throw errors.auth.unauthorized();
+      }
+
+      const payload = (await access.verify(token)) as
+        | AccessTokenPayload
+        | false;
+      if (!payload) {
+        throw errors.auth.invalidToken();
+      }
+
+      await meetingsService.findById(params.id, payload.sub);
+      requireCapability(
+        await meetingsService.getCapabilities(params.id, payload.sub),
+        'manageMeeting'
+      );
+
+      const settings = await meetingsService.updateSettings(params.id, body);
+
+      const by = await meetingsService.findUserParticipant(
+        params.id,
+        payload.sub
+      );
+      await applySettings(params.id, settings, body, by?.id);
+
+      return { settings };
+    },
+    {
+      params: t.Object({
+        id: t.String(),
+      }),
+      body: updateMeetingSettingsDto,
+      detail: {
+        tags: ['Meetings'],
+        summary: 'Update meeting settings',
+        description: 'Change the host-controlled settings of a meeting. Only the provided keys are updated; the full settings object is returned and broadcast to the room as `room.settingsChanged`. Only the host can update settings.',
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          {
+            name: 'id',
+            in: 'path',
+            required: true,
+            schema: { type: 'string' },
+            description: 'Meeting ID',
+            example: 'meeting-id-123'
+          }
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/MeetingSettings' }
+            }
+          }
+        },
+        responses: {
+          200: {
+            description: 'Settings updated successfully',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    settings: { $ref: '#/components/schemas/MeetingSettings' }
+                  }
+                }
+              }
+            }
+          },
+          400: {
+            description: 'Validation error',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Error' },
+                examples: {
+                  validation: {
+                    value: {
+                      type: 'validation/invalid',
+                      title: 'Validation Error',
+                      detail: 'Invalid meeting settings',
+                      status: 400
+                    }
+                  }
+                }
+              }
+            }
+          },
+          401: {
+            description: 'Unauthorized',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Error' },
+                examples: {
+                  unauthorized: {
+                    value: {
+                      type: 'auth/unauthorized',
+                      title: 'Unauthorized',
+                      detail: 'You must be logged in to access this resource',
+                      status: 401
+                    }
+                  }
+                }
+              }
+            }
+          },
+          403: {
+            description: 'Forbidden',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Error' },
+                examples: {
+                  forbidden: {
+                    value: {
+                      type: 'meeting/forbidden',
+                      title: 'Meeting Access Forbidden',
+                      detail: 'You do not have access to this meeting',
+                      status: 403
+                    }
+                  }
+                }
+              }
+            }
+          },
+          404: {
+            description: 'Meeting not found',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Error' },
+                examples: {
+                  notFound: {
+                    value: {
+                      type: 'meeting/not-found',
+                      title: 'Meeting Not Found',
+                      detail: 'The requested meeting does not exist',
+                      status: 404
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      },
+    }
+  )
+  .post(
+    '/:id/end',
+    async ({ params, headers, access }) => {
+      const token = parseBearerToken(headers.authorization);
+      if (!token) {
+        throw errors.auth.unauthorized();
+      }
+
+      const payload = (await access.verify(token)) as
+        | AccessTokenPayload
+        | false;
+      if (!payload) {
+        throw errors.auth.invalidToken();
+      }
+
+      await meetingsService.findById(params.id, payload.sub);
+      requireCapability(
+        await meetingsService.getCapabilities(params.id, payload.sub),
+        'manageMeeting'
+      );
+
+      const ended = await meetingsService.end(params.id);
+      await closeEndedMeeting(params.id, ended.endedAt);
+
+      return { success: true, endedAt: ended.endedAt };
+    },
+    {
+      params: t.Object({
+        id: t.String(),
+      }),
+      detail: {
+        tags: ['Meetings'],
+        summary: 'End meeting',
+        description: 'End the meeting for everyone. Everyone connected receives a room.ended WebSocket event and is disconnected, and later room token requests fail with room/already-ended. Only the host can end a meeting.',
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          {
+            name: 'id',
+            in: 'path',
+            required: true,
+            schema: { type: 'string' },
+            description: 'Meeting ID',
+            example: 'meeting-id-123'
+          }
+        ],
+        responses: {
+          200: {
+            description: 'Meeting ended successfully',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    success: { type: 'boolean', example: true },
+                    endedAt: { type: 'string', format: 'date-time' }
+                  }
+                }
+              }
+            }
+          },
+          401: {
+            description: 'Unauthorized',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Error' },
+                examples: {
+                  unauthorized: {
+                    value: {
+                      type: 'auth/unauthorized',
+                      title: 'Unauthorized',
+                      detail: 'You must be logged in to access this resource',
+                      status: 401
+                    }
+                  }
+                }
+              }
+            }
+          },
+          403: {
+            description: 'Forbidden',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Error' },
+                examples: {
+                  forbidden: {
+                    value: {
+                      type: 'meeting/forbidden',
+                      title: 'Meeting Access Forbidden',
+                      detail: 'You do not have access to this meeting',
+                      status: 403
+                    }
+                  }
+                }
+              }
+            }
+          },
+          404: {
+            description: 'Meeting not found',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Error' },
+                examples: {
+                  notFound: {
+                    value: {
+                      type: 'meeting/not-found',
+                      title: 'Meeting Not Found',
+                      detail: 'The requested meeting does not exist',
+                      status: 404
+                    }
+                  }
+                }
+              }
+            }
+          },
+          410: {
+            description: 'Meeting already ended',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Error' },
+                examples: {
+                  alreadyEnded: {
+                    value: {
+                      type: 'room/already-ended',
+                      title: 'Meeting Ended',
+                      detail: 'This meeting has already ended',
+                      status: 410
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      },
+    }
   );
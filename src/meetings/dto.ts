@@ -1,8 +1,10 @@
 import { z } from 'zod';
+import { meetingSettingsPatchSchema } from './settings';
 
 export const createMeetingDto = z.object({
   title: z.string().min(1).max(255).optional(),
   scheduledAt: z.string().datetime().optional(),
+  settings: meetingSettingsPatchSchema.optional(),
 });
 
 export const resolveCodeDto = z.object({
@@ -12,6 +14,7 @@ export const resolveCodeDto = z.object({
 export const roomTokenDto = z.object({
   allowGuest: z.boolean().optional().default(false),
   displayName: z.string().optional(),
+  fingerprint: z.string().min(8).max(255).optional(), // stable client device id
 });
 
 export const getMeetingsQueryDto = z.object({
@@ -22,7 +25,10 @@ export const getMeetingsQueryDto = z.object({
   limit: z.string().optional().default('10').transform(Number),
 });
 
+export const updateMeetingSettingsDto = meetingSettingsPatchSchema.strict();
+
 export type CreateMeetingDto = z.infer<typeof createMeetingDto>;
 export type ResolveCodeDto = z.infer<typeof resolveCodeDto>;
 export type RoomTokenDto = z.infer<typeof roomTokenDto>;
 export type GetMeetingsQueryDto = z.infer<typeof getMeetingsQueryDto>;
+export type UpdateMeetingSettingsDto = z.infer<typeof updateMeetingSettingsDto>;
@@ -1,9 +1,18 @@
-import { eq, and, or, desc, gte } from 'drizzle-orm';
+import { eq, ne, and, or, desc, gte, isNull, sql } from 'drizzle-orm';
 import { db } from '../db/client';
-import { meetings, participants, users } from '../db/schema';
+import {
+  meetings,
+  participants,
+  users,
+  invites,
+  meetingRoles,
+} from '../db/schema';
 import { errors } from '../common/errors';
 import { generateMeetingCode } from './code';
-import type { CreateMeetingDto } from './dto';
+import { resolveMeetingSettings } from './settings';
+import { bansService } from '../bans/service';
+import { resolveCapabilities } from '../common/permissions';
+import type { CreateMeetingDto, UpdateMeetingSettingsDto } from './dto';
 import type { ParticipantRole } from '../common/types';
 
 export class MeetingsService {
@@ -36,6 +45,7 @@ export class MeetingsService {
         title: data.title || `Meeting ${code}`,
         hostId,
         scheduledAt: data.scheduledAt ? new Date(data.scheduledAt) : null,
+        settings: data.settings ?? {},
       })
       .returning();
 
@@ -52,10 +62,95 @@ export class MeetingsService {
       title: meeting.title,
       hostId: meeting.hostId,
       scheduledAt: meeting.scheduledAt,
+      settings: resolveMeetingSettings(meeting.settings),
       createdAt: meeting.createdAt,
     };
   }
 
+  async getSettings(meetingId: string) {
+    const meeting = await db.query.meetings.findFirst({
+      where: eq(meetings.id, meetingId),
+    });
+
+    if (!meeting) {
+      throw errors.meeting.notFound();
+    }
+
+    return resolveMeetingSettings(meeting.settings);
+  }
+
+  // Merged in the database, so concurrent updates of different settings do
+  // not overwrite each other. Only explicitly set values are stored; the rest
+  // keep following the defaults.
+  async updateSettings(meetingId: string, patch: UpdateMeetingSettingsDto) {
+    const [meeting] = await db
+      .update(meetings)
+      .set({
+        settings: sql`coalesce(${meetings.settings}, '{}'::jsonb) || ${JSON.stringify(patch)}::jsonb`,
+      })
+      .where(eq(meetings.id, meetingId))
+      .returning();
+
+    if (!meeting) {
+      throw errors.meeting.notFound();
+    }
+
+    return resolveMeetingSettings(meeting.settings);
+  }
+
+  async transferHost(meetingId: string, userId: string) {
+    const [meeting] = await db
+      .update(meetings)
+      .set({ hostId: userId })
+      .where(eq(meetings.id, meetingId))
+      .returning();
+
+    if (!meeting) {
+      throw errors.meeting.notFound();
+    }
+
+    return meeting;
+  }
+
+  async setLocked(meetingId: string, locked: boolean) {
+    const [meeting] = await db
+      .update(meetings)
+      .set({ lockedAt: locked ? new Date() : null })
+      .where(eq(meetings.id, meetingId))
+      .returning();
+
+    if (!meeting) {
+      throw errors.meeting.notFound();
+    }
+
+    return meeting;
+  }
+
+  // Stamps endedAt and closes the attendance of everyone still in the meeting
+  async end(meetingId: string) {
+    const [meeting] = await db
+      .update(meetings)
+      .set({ endedAt: new Date() })
+      .where(and(eq(meetings.id, meetingId), isNull(meetings.endedAt)))
+      .returning();
+
+    if (!meeting) {
+      const existing = await db.query.meetings.findFirst({
+        where: eq(meetings.id, meetingId),
+      });
+      throw existing ? errors.room.alreadyEnded() : errors.meeting.notFound();
+    }
+
+    await db
+      .update(participants)
+      .set({ leftAt: meeting.endedAt })
+      .where(
+        and(eq(participants.meetingId, meetingId), isNull(participants.leftAt))
+      );
+
+    return meeting;
+  }
+
   async findById(meetingId: string, userId?: string) {
     const meeting = await db.query.meetings.findFirst({
       where: eq(meetings.id, meetingId),
@@ -129,36 +224,129 @@ export class MeetingsService {
     return result.map(r => r.meeting);
   }
 
-  async canUserJoin(meetingId: string, userId?: string): Promise<boolean> {
+  // `isInRoom` tells whether a participant is in the live room, which lets
+  // them back into a locked meeting
+  async canUserJoin(
+    meetingId: string,
+    userId?: string,
+    fingerprint?: string,
+    isInRoom: (participantId: string) => Promise<boolean> = async () => false
+  ): Promise<boolean> {
     const meeting = await db.query.meetings.findFirst({
       where: eq(meetings.id, meetingId),
     });
 
     if (!meeting) return false;
-    if (meeting.endedAt) return false;
+    if (meeting.endedAt) {
+      throw errors.room.alreadyEnded();
+    }
 
     // Host can always join
     if (userId && meeting.hostId === userId) return true;
 
-    // Check if user is participant
-    if (userId) {
-      const participant = await db.query.participants.findFirst({
-        where: and(
-          eq(participants.meetingId, meetingId),
-          eq(participants.userId, userId)
-        ),
-      });
+    const ban = await bansService.findMatch(meetingId, { userId, fingerprint });
+    if (ban) {
+      throw errors.meeting.banned();
+    }
 
-      if (participant) return true;
+    // Check if user is participant
+    const participant = userId
+      ? await db.query.participants.findFirst({
+          where: and(
+            eq(participants.meetingId, meetingId),
+            eq(participants.userId, userId)
+          ),
+        })
+      : undefined;
+
+    // A locked meeting keeps out newcomers. Cohosts get in, and so does a
+    // participant still in the room whose room token expired.
+    if (
+      meeting.lockedAt &&
+      !(
+        participant &&
+        (participant.role === 'cohost' || (await isInRoom(participant.id)))
+      )
+    ) {
+      throw errors.room.locked();
     }
 
     return true; // Allow guests for now
   }
 
+  // Grants of a signed-in user in a meeting, for REST endpoints
+  async getCapabilities(meetingId: string, userId: string) {
+    const meeting = await db.query.meetings.findFirst({
+      where: eq(meetings.id, meetingId),
+    });
+
+    if (!meeting) {
+      throw errors.meeting.notFound();
+    }
+
+    if (meeting.hostId === userId) {
+      return resolveCapabilities('host');
+    }
+
+    const participant = await this.findUserParticipant(meetingId, userId);
+    return this.resolveParticipantCapabilities(
+      meetingId,
+      participant ?? { role: 'guest', customRoleId: null }
+    );
+  }
+
+  // Grants of a participant: those of their custom role if they have one,
+  // otherwise those of their built-in role as configured in the settings
+  async resolveParticipantCapabilities(
+    meetingId: string,
+    participant: { role: ParticipantRole; customRoleId: string | null }
+  ) {
+    const settings = await this.getSettings(meetingId);
+    const customRole = participant.customRoleId
+      ? await db.query.meetingRoles.findFirst({
+          where: eq(meetingRoles.id, participant.customRoleId),
+        })
+      : undefined;
+
+    return resolveCapabilities(
+      participant.role,
+      settings.permissions,
+      customRole?.capabilities
+    );
+  }
+
+  async findUserParticipant(meetingId: string, userId: string) {
+    return db.query.participants.findFirst({
+      where: and(
+        eq(participants.meetingId, meetingId),
+        eq(participants.userId, userId)
+      ),
+    });
+  }
+
+  // Whether the user has an invite to the meeting they have not declined
+  async isInvited(meetingId: string, userId: string) {
+    const user = await db.query.users.findFirst({
+      where: eq(users.id, userId),
+    });
+    if (!user) return false;
+
+    const invite = await db.query.invites.findFirst({
+      where: and(
+        eq(invites.meetingId, meetingId),
+        eq(invites.email, user.email),
+        ne(invites.status, 'declined')
+      ),
+    });
+
+    return Boolean(invite);
+  }
+
   async getOrCreateParticipant(
     meetingId: string,
     userId: string | null,
-    role: ParticipantRole = 'guest'
+    role: ParticipantRole = 'guest',
+    fingerprint?: string
   ) {
     if (userId) {
       // Try to find existing participant
@@ -190,6 +378,7 @@ export class MeetingsService {
           meetingId,
           userId: null,
           role: 'guest',
+          fingerprint: fingerprint ?? null,
         })
         .returning();
 
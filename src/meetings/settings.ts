@@ -0,0 +1,86 @@
+import { z } from 'zod';
+import {
+  staffCapabilities,
+  defaultRoleCapabilities,
+} from '../common/permissions';
+
+const grantsSchema = z
+  .array(z.enum(staffCapabilities))
+  .max(staffCapabilities.length);
+
+// Host-controlled per-meeting options, stored as a JSON document on the
+// meeting. Missing keys fall back to the defaults below.
+const settingsShape = {
+  privateChat: z.boolean(), // participants may send direct messages
+  waitingRoom: z.boolean(), // guests wait in the lobby unless auto-admitted
+  autoAdmit: z.enum(['everyone', 'signedIn', 'domains', 'invited']),
+  autoAdmitDomains: z
+    .array(z.string().trim().toLowerCase().min(1).max(255))
+    .max(50), // email domains let in when autoAdmit is 'domains'
+  permissions: z.object({
+    cohost: grantsSchema,
+    guest: grantsSchema,
+  }), // staff capabilities of each built-in role besides the host
+  // The options below do not apply to hosts and cohosts (anyone who can
+  // moderate)
+  muteOnEntry: z.boolean(), // participants join with their mic off
+  camerasOffOnEntry: z.boolean(),
+  chatEnabled: z.boolean(),
+  reactionsEnabled: z.boolean(), // room reactions and chat message reactions
+  screenShare: z.enum(['everyone', 'hosts']),
+  maxParticipants: z.number().int().min(2).max(1000).nullable(), // null: no limit; the host always gets in
+  allowGuests: z.boolean(), // people without an account may join
+};
+
+export const meetingSettingsSchema = z.object(settingsShape);
+
+export type MeetingSettings = z.infer<typeof meetingSettingsSchema>;
+
+export const defaultMeetingSettings: MeetingSettings = {
+  privateChat: true,
+  waitingRoom: false,
+  autoAdmit: 'invited',
+  autoAdmitDomains: [],
+  permissions: defaultRoleCapabilities,
+  muteOnEntry: false,
+  camerasOffOnEntry: false,
+  chatEnabled: true,
+  reactionsEnabled: true,
+  screenShare: 'everyone',
+  maxParticipants: null,
+  allowGuests: true,
+};
+
+export const meetingSettingsPatchSchema = z.object(settingsShape).partial();
+
+export type MeetingSettingsPatch = z.infer<typeof meetingSettingsPatchSchema>;
+
+export type Joiner = {
+  email?: string | null; // set for signed-in users
+  invited: boolean;
+};
+
+// Whether a guest skips the waiting room. Invited users always do.
+export const isAutoAdmitted = (settings: MeetingSettings, joiner: Joiner) => {
+  if (joiner.invited) return true;
+
+  switch (settings.autoAdmit) {
+    case 'everyone':
+      return true;
+    case 'signedIn':
+      return Boolean(joiner.email);
+    case 'domains': {
+      const domain = joiner.email?.split('@').pop()?.toLowerCase();
+      return Boolean(domain && settings.autoAdmitDomains.includes(domain));
+    }
+    case 'invited':
+      return false;
+  }
+};
+
+export const resolveMeetingSettings = (
+  stored?: MeetingSettingsPatch | null
+): MeetingSettings => ({
+  ...defaultMeetingSettings,
+  ...stored,
+});
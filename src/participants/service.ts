@@ -1,6 +1,7 @@
 import { eq } from 'drizzle-orm';
 import { db } from '../db/client';
 import { participants } from '../db/schema';
+import type { ParticipantRole } from '../common/types';
 
 export class ParticipantsService {
   async findByMeeting(meetingId: string) {
@@ -22,6 +23,31 @@ export class ParticipantsService {
     });
   }
 
+  async updateLastRead(participantId: string, messageId: string) {
+    const [participant] = await db
+      .update(participants)
+      .set({ lastReadMessageId: messageId })
+      .where(eq(participants.id, participantId))
+      .returning();
+
+    return participant;
+  }
+
+  // A new built-in role also drops any custom role unless one is given
+  async updateRole(
+    participantId: string,
+    role: ParticipantRole,
+    customRoleId: string | null = null
+  ) {
+    const [participant] = await db
+      .update(participants)
+      .set({ role, customRoleId })
+      .where(eq(participants.id, participantId))
+      .returning();
+
+    return participant;
+  }
+
   async updateLeftAt(participantId: string) {
     const [participant] = await db
       .update(participants)
@@ -96,6 +96,18 @@ API endpoints may be subject to rate limiting. Exceeding limits will return a 42
           name: 'Users',
           description: 'User profile and settings management endpoints'
         },
+        {
+          name: 'Chat',
+          description: 'Meeting chat history endpoints'
+        },
+        {
+          name: 'Bans',
+          description: 'Meeting ban management endpoints'
+        },
+        {
+          name: 'Roles',
+          description: 'Custom meeting role management endpoints'
+        },
         {
           name: 'WebSocket',
           description: 'Real-time communication via WebSocket'
@@ -183,7 +195,32 @@ API endpoints may be subject to rate limiting. Exceeding limits will return a 42
             type: 'object',
             properties: {
               title: { type: 'string', maxLength: 255, example: 'Team Standup' },
-              scheduledAt: { type: 'string', format: 'date-time', example: '2024-01-15T10:00:00Z' }
+              scheduledAt: { type: 'string', format: 'date-time', example: '2024-01-15T10:00:00Z' },
+              settings: { $ref: '#/components/schemas/MeetingSettings' }
+            }
+          },
+          MeetingSettings: {
+            type: 'object',
+            properties: {
+              privateChat: { type: 'boolean', default: true, description: 'Allow participants to send direct messages' },
+              waitingRoom: { type: 'boolean', default: false, description: 'Guests wait in the lobby until admitted, unless auto-admitted' },
+              autoAdmit: { type: 'string', enum: ['everyone', 'signedIn', 'domains', 'invited'], default: 'invited', description: 'Who skips the waiting room' },
+              autoAdmitDomains: { type: 'array', items: { type: 'string' }, example: ['example.com'], description: 'Email domains let in when autoAdmit is domains' },
+              permissions: {
+                type: 'object',
+                description: 'Capabilities of cohosts and guests; the host always has all of them',
+                properties: {
+                  cohost: { type: 'array', items: { type: 'string', enum: ['moderate', 'admit', 'manageRoles', 'manageMeeting', 'invite', 'record'] }, default: ['moderate', 'admit', 'invite'] },
+                  guest: { type: 'array', items: { type: 'string', enum: ['moderate', 'admit', 'manageRoles', 'manageMeeting', 'invite', 'record'] }, default: [] }
+                }
+              },
+              muteOnEntry: { type: 'boolean', default: false, description: 'Participants join with their microphone off' },
+              camerasOffOnEntry: { type: 'boolean', default: false, description: 'Participants join with their camera off' },
+              chatEnabled: { type: 'boolean', default: true, description: 'Participants may chat; hosts and cohosts always can' },
+              reactionsEnabled: { type: 'boolean', default: true, description: 'Participants may send reactions; hosts and cohosts always can' },
+              screenShare: { type: 'string', enum: ['everyone', 'hosts'], default: 'everyone', description: 'Who may share their screen' },
+              maxParticipants: { type: 'integer', minimum: 2, maximum: 1000, nullable: true, default: null, description: 'Participant limit; the host always gets in' },
+              allowGuests: { type: 'boolean', default: true, description: 'People without an account may join' }
             }
           },
           MeetingResponse: {
@@ -194,6 +231,7 @@ API endpoints may be subject to rate limiting. Exceeding limits will return a 42
               title: { type: 'string', example: 'Team Standup' },
               hostId: { type: 'string', example: 'user-id' },
               scheduledAt: { type: 'string', format: 'date-time' },
+              settings: { $ref: '#/components/schemas/MeetingSettings' },
               createdAt: { type: 'string', format: 'date-time' },
               isActive: { type: 'boolean', example: true }
             }
@@ -218,7 +256,8 @@ API endpoints may be subject to rate limiting. Exceeding limits will return a 42
             type: 'object',
             properties: {
               allowGuest: { type: 'boolean', default: false },
-              displayName: { type: 'string', example: 'Guest User' }
+              displayName: { type: 'string', example: 'Guest User' },
+              fingerprint: { type: 'string', minLength: 8, maxLength: 255, description: 'Stable device identifier, used to enforce bans on guests. Optional and client-supplied, so a banned guest who omits or changes it gets a new participant' }
             }
           },
           RoomTokenResponse: {
@@ -257,6 +296,115 @@ API endpoints may be subject to rate limiting. Exceeding limits will return a 42
               }
             }
           },
+          // Chat schemas
+          ChatMessageResponse: {
+            type: 'object',
+            properties: {
+              id: { type: 'string', example: '01HZX3K5Q8W9E7R6T5Y4U3I2O1' },
+              participantId: { type: 'string', example: 'participant-id' },
+              sender: { type: 'string', example: 'John Doe' },
+              text: { type: 'string', example: 'Hello, everyone!' },
+              ts: { type: 'string', format: 'date-time' },
+              audience: { type: 'string', enum: ['everyone', 'direct', 'moderators'] },
+              to: { type: 'array', items: { type: 'string' }, nullable: true, description: 'Recipient participant IDs of a direct message' },
+              replyTo: { type: 'string', nullable: true, description: 'ID of the message this one replies to' },
+              mentions: { type: 'array', items: { type: 'string' }, description: 'Mentioned participant IDs' },
+              reactions: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    emoji: { type: 'string', example: '👍' },
+                    count: { type: 'integer', example: 2 },
+                    participantIds: { type: 'array', items: { type: 'string' } }
+                  }
+                }
+              }
+            }
+          },
+          ChatMessageListResponse: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'array',
+                items: { $ref: '#/components/schemas/ChatMessageResponse' }
+              },
+              meta: {
+                type: 'object',
+                properties: {
+                  nextCursor: { type: 'string', nullable: true },
+                  hasMore: { type: 'boolean' }
+                }
+              }
+            }
+          },
+          // Ban schemas
+          BanResponse: {
+            type: 'object',
+            properties: {
+              id: { type: 'string', example: 'ban-id' },
+              meetingId: { type: 'string', example: 'meeting-id' },
+              userId: { type: 'string', nullable: true, example: 'user-id' },
+              fingerprint: { type: 'string', nullable: true, description: 'Guest device fingerprint' },
+              participantId: { type: 'string', nullable: true, example: 'participant-id' },
+              displayName: { type: 'string', nullable: true, example: 'John Doe' },
+              reason: { type: 'string', nullable: true, example: 'Removed by moderator' },
+              bannedBy: { type: 'string', nullable: true, example: 'participant-id' },
+              createdAt: { type: 'string', format: 'date-time' }
+            }
+          },
+          BanListResponse: {
+            type: 'object',
+            properties: {
+              bans: {
+                type: 'array',
+                items: { $ref: '#/components/schemas/BanResponse' }
+              }
+            }
+          },
+          // Role schemas
+          CreateMeetingRoleRequest: {
+            type: 'object',
+            required: ['name', 'capabilities'],
+            properties: {
+              name: { type: 'string', minLength: 1, maxLength: 50, example: 'presenter', description: 'host, cohost and guest are reserved' },
+              capabilities: {
+                type: 'array',
+                items: { type: 'string', enum: ['moderate', 'admit', 'manageRoles', 'manageMeeting', 'invite', 'record', 'unmute', 'shareScreen', 'chat', 'react', 'seeRoster'] },
+                example: ['unmute', 'shareScreen', 'chat', 'react', 'seeRoster']
+              }
+            }
+          },
+          UpdateMeetingRoleRequest: {
+            type: 'object',
+            properties: {
+              name: { type: 'string', minLength: 1, maxLength: 50, example: 'attendee' },
+              capabilities: {
+                type: 'array',
+                items: { type: 'string', enum: ['moderate', 'admit', 'manageRoles', 'manageMeeting', 'invite', 'record', 'unmute', 'shareScreen', 'chat', 'react', 'seeRoster'] },
+                example: ['chat', 'react']
+              }
+            }
+          },
+          MeetingRoleResponse: {
+            type: 'object',
+            properties: {
+              id: { type: 'string', example: 'role-id' },
+              meetingId: { type: 'string', example: 'meeting-id' },
+              name: { type: 'string', example: 'presenter' },
+              capabilities: { type: 'array', items: { type: 'string' }, example: ['unmute', 'shareScreen', 'chat', 'react', 'seeRoster'] },
+              createdAt: { type: 'string', format: 'date-time' }
+            }
+          },
+          MeetingRoleListResponse: {
+            type: 'object',
+            properties: {
+              roles: {
+                type: 'array',
+                items: { $ref: '#/components/schemas/MeetingRoleResponse' }
+              }
+            }
+          },
           // User profile schemas
           UpdateProfileRequest: {
             type: 'object',
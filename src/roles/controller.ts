@@ -0,0 +1,610 @@
+import { Elysia, t } from 'elysia';
+import { jwt } from '../plugins/jwt';
+import { meetingRolesService } from './service';
+import { createMeetingRoleDto, updateMeetingRoleDto } from './dto';
+import { parseBearerToken } from '../common/http';
+import { errors } from '../common/errors';
+import { requireCapability } from '../common/permissions';
+import type { AccessTokenPayload } from '../auth/types';
+import { meetingsService } from '../meetings/service';
+import { applyMeetingRoles } from '../ws/handlers/moderation';
+
+export const rolesController = new Elysia({ prefix: '/v1' })
+  .use(jwt)
+  .get(
+    '/meetings/:id/roles',
+    async ({ params, headers, access }) => {
+      const token = parseBearerToken(headers.authorization);
+      if (!token) {
+        throw errors.auth.unauthorized();
+      }
+
+      const payload = (await access.verify(token)) as
+        | AccessTokenPayload
+        | false;
+      if (!payload) {
+        throw errors.auth.invalidToken();
+      }
+
+      await meetingsService.findById(params.id, payload.sub);
+
+      const roles = await meetingRolesService.findByMeeting(params.id);
+      return { roles };
+    },
+    {
+      params: t.Object({ id: t.String() }),
+      detail: {
+        tags: ['Roles'],
+        summary: 'List custom roles',
+        description: 'Retrieve the custom roles defined for the meeting, such as "presenter" or "attendee", with their capabilities. Any participant of the meeting can list them.',
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          {
+            name: 'id',
+            in: 'path',
+            required: true,
+            schema: { type: 'string' },
+            description: 'Meeting ID',
+            example: 'meeting-id-123'
+          }
+        ],
+        responses: {
+          200: {
+            description: 'Roles retrieved successfully',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/MeetingRoleListResponse' }
+              }
+            }
+          },
+          401: {
+            description: 'Unauthorized',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Error' },
+                examples: {
+                  unauthorized: {
+                    value: {
+                      type: 'auth/unauthorized',
+                      title: 'Unauthorized',
+                      detail: 'You must be logged in to access this resource',
+                      status: 401
+                    }
+                  },
+                  invalidToken: {
+                    value: {
+                      type: 'auth/invalid-token',
+                      title: 'Invalid Token',
+                      detail: 'The provided token is invalid',
+                      status: 401
+                    }
+                  }
+                }
+              }
+            }
+          },
+          403: {
+            description: 'Forbidden',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Error' },
+                examples: {
+                  forbidden: {
+                    value: {
+                      type: 'meeting/forbidden',
+                      title: 'Meeting Access Forbidden',
+                      detail: 'You do not have access to this meeting',
+                      status: 403
+                    }
+                  }
+                }
+              }
+            }
+          },
+          404: {
+            description: 'Meeting not found',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Error' },
+                examples: {
+                  notFound: {
+                    value: {
+                      type: 'meeting/not-found',
+                      title: 'Meeting Not Found',
+                      detail: 'The requested meeting does not exist',
+                      status: 404
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      },
+    }
+  )
+  .post(
+    '/meetings/:id/roles',
+    async ({ params, body, headers, access }) => {
+      const token = parseBearerToken(headers.authorization);
+      if (!token) {
+        throw errors.auth.unauthorized();
+      }
+
+      const payload = (await access.verify(token)) as
+        | AccessTokenPayload
+        | false;
+      if (!payload) {
+        throw errors.auth.invalidToken();
+      }
+
+      await meetingsService.findById(params.id, payload.sub);
+      requireCapability(
+        await meetingsService.getCapabilities(params.id, payload.sub),
+        'manageRoles'
+      );
+
+      const role = await meetingRolesService.create(params.id, body);
+      await applyMeetingRoles(params.id);
+
+      return role;
+    },
+    {
+      params: t.Object({ id: t.String() }),
+      body: createMeetingRoleDto,
+      detail: {
+        tags: ['Roles'],
+        summary: 'Create custom role',
+        description: 'Define a meeting role with its own capabilities. Participants are given it with the `moderation.assignRole` WebSocket message, and it replaces the capabilities of their built-in role. Requires the `manageRoles` capability.',
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          {
+            name: 'id',
+            in: 'path',
+            required: true,
+            schema: { type: 'string' },
+            description: 'Meeting ID',
+            example: 'meeting-id-123'
+          }
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/CreateMeetingRoleRequest' }
+            }
+          }
+        },
+        responses: {
+          201: {
+            description: 'Role created successfully',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/MeetingRoleResponse' }
+              }
+            }
+          },
+          400: {
+            description: 'Validation error',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Error' },
+                examples: {
+                  validation: {
+                    value: {
+                      type: 'validation/invalid',
+                      title: 'Validation Error',
+                      detail: 'Unknown capability or reserved role name',
+                      status: 400
+                    }
+                  }
+                }
+              }
+            }
+          },
+          401: {
+            description: 'Unauthorized',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Error' },
+                examples: {
+                  unauthorized: {
+                    value: {
+                      type: 'auth/unauthorized',
+                      title: 'Unauthorized',
+                      detail: 'You must be logged in to access this resource',
+                      status: 401
+                    }
+                  },
+                  invalidToken: {
+                    value: {
+                      type: 'auth/invalid-token',
+                      title: 'Invalid Token',
+                      detail: 'The provided token is invalid',
+                      status: 401
+                    }
+                  }
+                }
+              }
+            }
+          },
+          403: {
+            description: 'Forbidden',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Error' },
+                examples: {
+                  forbidden: {
+                    value: {
+                      type: 'meeting/forbidden',
+                      title: 'Meeting Access Forbidden',
+                      detail: 'You do not have access to this meeting',
+                      status: 403
+                    }
+                  }
+                }
+              }
+            }
+          },
+          404: {
+            description: 'Meeting not found',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Error' },
+                examples: {
+                  notFound: {
+                    value: {
+                      type: 'meeting/not-found',
+                      title: 'Meeting Not Found',
+                      detail: 'The requested meeting does not exist',
+                      status: 404
+                    }
+                  }
+                }
+              }
+            }
+          },
+          409: {
+            description: 'Role name taken',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Error' },
+                examples: {
+                  nameTaken: {
+                    value: {
+                      type: 'role/name-taken',
+                      title: 'Role Name Taken',
+                      detail: 'The meeting already has a role with this name',
+                      status: 409
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      },
+    }
+  )
+  .patch(
+    '/meetings/:id/roles/:roleId',
+    async ({ params, body, headers, access }) => {
+      const token = parseBearerToken(headers.authorization);
+      if (!token) {
+        throw errors.auth.unauthorized();
+      }
+
+      const payload = (await access.verify(token)) as
+        | AccessTokenPayload
+        | false;
+      if (!payload) {
+        throw errors.auth.invalidToken();
+      }
+
+      await meetingsService.findById(params.id, payload.sub);
+      requireCapability(
+        await meetingsService.getCapabilities(params.id, payload.sub),
+        'manageRoles'
+      );
+
+      const role = await meetingRolesService.update(
+        params.id,
+        params.roleId,
+        body
+      );
+      await applyMeetingRoles(params.id);
+
+      return role;
+    },
+    {
+      params: t.Object({ id: t.String(), roleId: t.String() }),
+      body: updateMeetingRoleDto,
+      detail: {
+        tags: ['Roles'],
+        summary: 'Update custom role',
+        description: 'Rename a custom role or replace its capabilities. Participants holding the role in the room get the new capabilities right away. Requires the `manageRoles` capability.',
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          {
+            name: 'id',
+            in: 'path',
+            required: true,
+            schema: { type: 'string' },
+            description: 'Meeting ID',
+            example: 'meeting-id-123'
+          },
+          {
+            name: 'roleId',
+            in: 'path',
+            required: true,
+            schema: { type: 'string' },
+            description: 'Role ID',
+            example: 'role-id-123'
+          }
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/UpdateMeetingRoleRequest' }
+            }
+          }
+        },
+        responses: {
+          200: {
+            description: 'Role updated successfully',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/MeetingRoleResponse' }
+              }
+            }
+          },
+          400: {
+            description: 'Validation error',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Error' },
+                examples: {
+                  validation: {
+                    value: {
+                      type: 'validation/invalid',
+                      title: 'Validation Error',
+                      detail: 'Unknown capability or reserved role name',
+                      status: 400
+                    }
+                  }
+                }
+              }
+            }
+          },
+          401: {
+            description: 'Unauthorized',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Error' },
+                examples: {
+                  unauthorized: {
+                    value: {
+                      type: 'auth/unauthorized',
+                      title: 'Unauthorized',
+                      detail: 'You must be logged in to access this resource',
+                      status: 401
+                    }
+                  },
+                  invalidToken: {
+                    value: {
+                      type: 'auth/invalid-token',
+                      title: 'Invalid Token',
+                      detail: 'The provided token is invalid',
+                      status: 401
+                    }
+                  }
+                }
+              }
+            }
+          },
+          403: {
+            description: 'Forbidden',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Error' },
+                examples: {
+                  forbidden: {
+                    value: {
+                      type: 'meeting/forbidden',
+                      title: 'Meeting Access Forbidden',
+                      detail: 'You do not have access to this meeting',
+                      status: 403
+                    }
+                  }
+                }
+              }
+            }
+          },
+          404: {
+            description: 'Meeting not found or role not found',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Error' },
+                examples: {
+                  notFound: {
+                    value: {
+                      type: 'meeting/not-found',
+                      title: 'Meeting Not Found',
+                      detail: 'The requested meeting does not exist',
+                      status: 404
+                    }
+                  },
+                  roleNotFound: {
+                    value: {
+                      type: 'role/not-found',
+                      title: 'Role Not Found',
+                      detail: 'The requested role does not exist',
+                      status: 404
+                    }
+                  }
+                }
+              }
+            }
+          },
+          409: {
+            description: 'Role name taken',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Error' },
+                examples: {
+                  nameTaken: {
+                    value: {
+                      type: 'role/name-taken',
+                      title: 'Role Name Taken',
+                      detail: 'The meeting already has a role with this name',
+                      status: 409
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      },
+    }
+  )
+  .delete(
+    '/meetings/:id/roles/:roleId',
+    async ({ params, headers, access }) => {
+      const token = parseBearerToken(headers.authorization);
+      if (!token) {
+        throw errors.auth.unauthorized();
+      }
+
+      const payload = (await access.verify(token)) as
+        | AccessTokenPayload
+        | false;
+      if (!payload) {
+        throw errors.auth.invalidToken();
+      }
+
+      await meetingsService.findById(params.id, payload.sub);
+      requireCapability(
+        await meetingsService.getCapabilities(params.id, payload.sub),
+        'manageRoles'
+      );
+
+      await meetingRolesService.remove(params.id, params.roleId);
+      await applyMeetingRoles(params.id);
+
+      return { success: true };
+    },
+    {
+      params: t.Object({ id: t.String(), roleId: t.String() }),
+      detail: {
+        tags: ['Roles'],
+        summary: 'Delete custom role',
+        description: 'Delete a custom role. Participants holding it fall back to the capabilities of their built-in role. Requires the `manageRoles` capability.',
+        security: [{ bearerAuth: [] }],
+        parameters: [
+          {
+            name: 'id',
+            in: 'path',
+            required: true,
+            schema: { type: 'string' },
+            description: 'Meeting ID',
+            example: 'meeting-id-123'
+          },
+          {
+            name: 'roleId',
+            in: 'path',
+            required: true,
+            schema: { type: 'string' },
+            description: 'Role ID',
+            example: 'role-id-123'
+          }
+        ],
+        responses: {
+          200: {
+            description: 'Role deleted successfully',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    success: { type: 'boolean', example: true }
+                  }
+                }
+              }
+            }
+          },
+          401: {
+            description: 'Unauthorized',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Error' },
+                examples: {
+                  unauthorized: {
+                    value: {
+                      type: 'auth/unauthorized',
+                      title: 'Unauthorized',
+                      detail: 'You must be logged in to access this resource',
+                      status: 401
+                    }
+                  },
+                  invalidToken: {
+                    value: {
+                      type: 'auth/invalid-token',
+                      title: 'Invalid Token',
+                      detail: 'The provided token is invalid',
+                      status: 401
+                    }
+                  }
+                }
+              }
+            }
+          },
+          403: {
+            description: 'Forbidden',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Error' },
+                examples: {
+                  forbidden: {
+                    value: {
+                      type: 'meeting/forbidden',
+                      title: 'Meeting Access Forbidden',
+                      detail: 'You do not have access to this meeting',
+                      status: 403
+                    }
+                  }
+                }
+              }
+            }
+          },
+          404: {
+            description: 'Meeting not found or role not found',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Error' },
+                examples: {
+                  notFound: {
+                    value: {
+                      type: 'meeting/not-found',
+                      title: 'Meeting Not Found',
+                      detail: 'The requested meeting does not exist',
+                      status: 404
+                    }
+                  },
+                  roleNotFound: {
+                    value: {
+                      type: 'role/not-found',
+                      title: 'Role Not Found',
+                      detail: 'The requested role does not exist',
+                      status: 404
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      },
+    }
+  );
@@ -0,0 +1,23 @@
+import { z } from 'zod';
+import { capabilities } from '../common/permissions';
+
+const builtInRoles = ['host', 'cohost', 'guest'];
+
+const roleShape = {
+  name: z
+    .string()
+    .trim()
+    .min(1)
+    .max(50)
+    .refine(name => !builtInRoles.includes(name.toLowerCase()), {
+      message: 'Built-in role names cannot be reused',
+    }),
+  capabilities: z.array(z.enum(capabilities)).max(capabilities.length),
+};
+
+export const createMeetingRoleDto = z.object(roleShape);
+
+export const updateMeetingRoleDto = z.object(roleShape).partial().strict();
+
+export type CreateMeetingRoleDto = z.infer<typeof createMeetingRoleDto>;
+export type UpdateMeetingRoleDto = z.infer<typeof updateMeetingRoleDto>;
@@ -0,0 +1,99 @@
+import { eq, and, asc } from 'drizzle-orm';
+import { db } from '../db/client';
+import { meetingRoles } from '../db/schema';
+import { errors } from '../common/errors';
+import type { CreateMeetingRoleDto, UpdateMeetingRoleDto } from './dto';
+
+export type MeetingRole = typeof meetingRoles.$inferSelect;
+
+// Custom roles of a meeting, such as "presenter" or "attendee". Participants
+// assigned one get its capabilities instead of those of their built-in role.
+export class MeetingRolesService {
+  async findByMeeting(meetingId: string): Promise<MeetingRole[]> {
+    return db.query.meetingRoles.findMany({
+      where: eq(meetingRoles.meetingId, meetingId),
+      orderBy: asc(meetingRoles.createdAt),
+    });
+  }
+
+  async findById(meetingId: string, roleId: string) {
+    const role = await db.query.meetingRoles.findFirst({
+      where: and(
+        eq(meetingRoles.id, roleId),
+        eq(meetingRoles.meetingId, meetingId)
+      ),
+    });
+
+    if (!role) {
+      throw errors.role.notFound();
+    }
+
+    return role;
+  }
+
+  async create(meetingId: string, data: CreateMeetingRoleDto) {
+    await this.assertNameFree(meetingId, data.name);
+
+    const [role] = await db
+      .insert(meetingRoles)
+      .values({
+        meetingId,
+        name: data.name,
+        capabilities: [...new Set(data.capabilities)],
+      })
+      .returning();
+
+    return role;
+  }
+
+  async update(meetingId: string, roleId: string, data: UpdateMeetingRoleDto) {
+    const role = await this.findById(meetingId, roleId);
+    if (data.name && data.name !== role.name) {
+      await this.assertNameFree(meetingId, data.name);
+    }
+
+    const [updated] = await db
+      .update(meetingRoles)
+      .set({
+        name: data.name ?? role.name,
+        capabilities: data.capabilities
+          ? [...new Set(data.capabilities)]
+          : role.capabilities,
+      })
+      .where(eq(meetingRoles.id, roleId))
+      .returning();
+
+    return updated;
+  }
+
+  // Participants holding the role fall back to their built-in role
+  async remove(meetingId: string, roleId: string) {
+    const [role] = await db
+      .delete(meetingRoles)
+      .where(
+        and(eq(meetingRoles.id, roleId), eq(meetingRoles.meetingId, meetingId))
+      )
+      .returning();
+
+    if (!role) {
+      throw errors.role.notFound();
+    }
+
+    return role;
+  }
+
+  private async assertNameFree(meetingId: string, name: string) {
+    const existing = await db.query.meetingRoles.findFirst({
+      where: and(
+        eq(meetingRoles.meetingId, meetingId),
+        eq(meetingRoles.name, name)
+      ),
+    });
+
+    if (existing) {
+      throw errors.role.nameTaken();
+    }
+  }
+}
+
+export const meetingRolesService = new MeetingRolesService();
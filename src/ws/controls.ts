@@ -0,0 +1,41 @@
+import { redis } from './redis';
+
+// Room-wide switches moderators flip during a meeting. They only matter while
+// the meeting is live, so they live next to the roster rather than in the
+// meeting's settings.
+export type RoomControls = {
+  micLocked: boolean; // guests cannot unmute themselves
+};
+
+const CONTROLS_TTL_SEC = 24 * 60 * 60;
+
+const controlsKey = (meetingId: string) => `meeting:${meetingId}:controls`;
+
+export class RoomControlsStore {
+  async get(meetingId: string): Promise<RoomControls> {
+    const raw = await redis.hgetall(controlsKey(meetingId));
+
+    return {
+      micLocked: raw.micLocked === '1',
+    };
+  }
+
+  async update(meetingId: string, patch: Partial<RoomControls>) {
+    const fields = Object.entries(patch).flatMap(([key, value]) => [
+      key,
+      value ? '1' : '0',
+    ]);
+
+    if (fields.length > 0) {
+      await redis
+        .multi()
+        .hset(controlsKey(meetingId), ...fields)
+        .expire(controlsKey(meetingId), CONTROLS_TTL_SEC)
+        .exec();
+    }
+
+    return this.get(meetingId);
+  }
+}
+
+export const roomControls = new RoomControlsStore();
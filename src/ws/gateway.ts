@@ -1,22 +1,9 @@
 import { Elysia } from 'elysia';
 import { jwt } from '../plugins/jwt';
 import type { WSContext, SocketWithContext } from './types';
-import type { WSMessage, WSResponse } from '../common/types';
-import type { AccessTokenPayload } from '../auth/types';
-import { handleRoomJoin, handleRoomLeave } from './handlers/room';
-import { handleRTCSignal } from './handlers/rtc';
-import { handleChatSend } from './handlers/chat';
-import { handleMediaUpdate } from './handlers/media';
-import {
-  handleHandRaise,
-  handleHandLower,
-  handleReactionSend,
-} from './handlers/presence';
-import {
-  handleModerationMute,
-  handleModerationRemove,
-} from './handlers/moderation';
-import { handleLobbyAdmit, handleLobbyReject } from './handlers/lobby';
+import type { WSResponse } from '../common/types';
+import { handleRoomDisconnect } from './handlers/room';
+import { dispatchMessage } from './router';
 import { wsState } from './state';
 
 export const wsGateway = new Elysia().use(jwt).ws('/ws', {
@@ -48,6 +35,74 @@ All WebSocket messages follow this structure:
 }
 \`\`\`
 
+## Acknowledgements
+
+Every command is answered with the caller's \`requestId\`: either its own reply
+(\`auth.ok\`, \`room.joined\`, \`room.left\`, ...) or \`<type>.ack\`, e.g.
+\`chat.send.ack\`, or an \`error\`.
+
+Commands may carry an \`idempotencyKey\`. Retrying a command with the same key
+returns the original ack instead of executing it again, so a retried
+\`chat.send\` is never posted twice. Keys are scoped to the user, or to the
+participant for guests:
+
+\`\`\`json
+{
+  "type": "chat.send",
+  "requestId": "chat-124",
+  "idempotencyKey": "2f1c9a",
+  "payload": { "text": "Hello, everyone!" }
+}
+\`\`\`
+
+## Validation
+
+Every payload is validated against the schema for its message type. Invalid
+messages are answered with an \`error\` that carries the \`requestId\` and the
+field-level issues:
+
+\`\`\`json
+{
+  "type": "error",
+  "requestId": "chat-123",
+  "error": "Invalid payload for chat.send",
+  "payload": {
+    "type": "validation/invalid",
+    "issues": [
+      { "path": "text", "code": "invalid_type", "message": "Invalid input: expected string, received undefined" }
+    ]
+  }
+}
+\`\`\`
+
+## Rate Limits
+
+Commands are limited per participant and, for chatty types such as
+\`chat.send\` and \`reaction.send\`, per room. Limited commands are answered
+with:
+
+\`\`\`json
+{
+  "type": "error",
+  "requestId": "chat-125",
+  "error": "Rate limit exceeded",
+  "payload": { "type": "rate_limited", "retryAfterMs": 800 }
+}
+\`\`\`
+
+## Heartbeat
+
+Clients should send a \`ping\` at least every 10 seconds; the server answers
+with \`pong\`. Connections that stay silent for several intervals are closed
+and removed from their room.
+
+\`\`\`json
+{
+  "type": "ping",
+  "requestId": "ping-1"
+}
+\`\`\`
+
 ## Authentication
 
 Before using any room features, you must authenticate with your access token:
@@ -96,6 +151,25 @@ Error response:
 }
 \`\`\`
 
+### Resume After a Dropped Connection
+
+\`room.joined\` includes a \`resumeToken\`. After reconnecting and authenticating,
+a client can re-attach to its participant instead of joining again, as long as
+it does so within the disconnect grace period:
+
+\`\`\`json
+{
+  "type": "room.resume",
+  "requestId": "resume-123",
+  "payload": {
+    "resumeToken": "token-from-room-joined"
+  }
+}
+\`\`\`
+
+The server answers with \`room.resumed\` (same shape as \`room.joined\`, with a
+fresh \`resumeToken\`) and then replays the room events that were missed.
+
 ### Leave a Meeting
 
 \`\`\`json
@@ -136,6 +210,58 @@ Error response:
 }
 \`\`\`
 
+### Private Messages
+
+Add \`to\` (a participant ID or an array of them) to send a direct message
+that only the sender and recipients receive. Hosts and cohosts can set
+\`audience: "moderators"\` to message only the host/cohost group. Guests
+cannot send direct messages when the meeting's \`privateChat\` setting is off.
+
+\`\`\`json
+{
+  "type": "chat.send",
+  "requestId": "chat-124",
+  "payload": {
+    "text": "Can you share the slides?",
+    "to": "participant-id"
+  }
+}
+\`\`\`
+
+### Replies, Mentions and Reactions
+
+Set \`replyTo\` to the id of another message to reply in a thread. Writing
+\`@Display Name\` mentions a participant in the room; they receive a
+\`chat.mention\` event with the message. React to a message with
+\`chat.react\` and \`chat.unreact\`; everyone who can see it receives
+\`chat.reactions.changed\` with the aggregated reactions.
+
+\`\`\`json
+{
+  "type": "chat.react",
+  "requestId": "react-1",
+  "payload": {
+    "messageId": "01HZX3K5Q8W9E7R6T5Y4U3I2O1",
+    "emoji": "🎉"
+  }
+}
+\`\`\`
+
+### Typing and Read Receipts
+
+Send \`chat.typing\` while composing; others receive \`chat.typing.changed\`
+with \`expiresInMs\`, and typing stops by itself when it is not refreshed.
+Send \`chat.read\` with the last message you have seen to publish a read
+receipt (\`chat.read.changed\`); the ack contains your unread count.
+
+\`\`\`json
+{
+  "type": "chat.read",
+  "requestId": "read-1",
+  "payload": { "messageId": "01HZX3K5Q8W9E7R6T5Y4U3I2O1" }
+}
+\`\`\`
+
 ## Reactions
 
 ### Send Reaction
@@ -172,6 +298,16 @@ Error response:
 
 ## Moderation (Host only)
 
+Moderation commands check the sender's capabilities (\`perms\` in
+\`room.joined\`): \`moderate\` for muting, removing and locking,
+\`manageRoles\` for role changes and \`manageMeeting\` for ending the meeting.
+Hosts hold every capability and cohosts get \`moderate\`, \`admit\` and
+\`invite\` by default; the \`permissions\` meeting setting changes that.
+Without the capability the command fails with \`Insufficient permissions\`.
+Participation is checked the same way: \`unmute\` and \`shareScreen\` for
+\`media.update\`, \`chat\` for sending, editing and typing, \`react\` for
+reactions, and \`seeRoster\` for \`peers\` and join/leave events.
+
 ### Mute Participant
 
 \`\`\`json
@@ -184,6 +320,109 @@ Error response:
 }
 \`\`\`
 
+### Mute Everyone
+
+\`\`\`json
+{
+  "type": "moderation.muteAll",
+  "requestId": "mute-all-1",
+  "payload": {
+    "exclude": ["presenter-participant-id"],
+    "lockMic": true
+  }
+}
+\`\`\`
+
+Everyone except the sender and \`exclude\` is muted. With \`lockMic\`, guests
+cannot set \`mic: "on"\` until a host sends \`moderation.lockMic\` with
+\`locked: false\`; everyone receives \`room.controls.changed\`.
+\`moderation.disableCam\` and \`moderation.stopScreen\` take a
+\`participantId\` and turn that participant's camera or screen share off.
+
+### Change Roles
+
+\`\`\`json
+{
+  "type": "moderation.setRole",
+  "requestId": "role-1",
+  "payload": { "participantId": "participant-id", "role": "cohost" }
+}
+\`\`\`
+
+The host can promote guests to \`cohost\` and demote them back to
+\`guest\`. \`moderation.transferHost\` (\`{ "participantId" }\`) makes a
+signed-in participant the meeting's host and the previous host a cohost.
+Everyone receives \`participant.roleChanged\` and the new role applies to
+the next command.
+
+\`\`\`json
+{
+  "type": "moderation.assignRole",
+  "requestId": "role-2",
+  "payload": { "participantId": "participant-id", "roleId": "role-id" }
+}
+\`\`\`
+
+Custom roles are defined per meeting over REST (\`/v1/meetings/{id}/roles\`)
+and listed as \`roles\` in \`room.joined\`. A participant given one gets
+exactly its capabilities, announced to them with \`room.permissionsChanged\`;
+\`roleId: null\` takes it away again. Editing or deleting a role re-grants
+everyone holding it and broadcasts \`room.rolesChanged\`.
+
+### Update Settings
+
+\`\`\`json
+{
+  "type": "moderation.updateSettings",
+  "requestId": "settings-1",
+  "payload": { "chatEnabled": false, "screenShare": "hosts" }
+}
+\`\`\`
+
+Takes the same keys as \`PATCH /v1/meetings/{id}/settings\` and needs
+\`manageMeeting\`. Everyone receives \`room.settingsChanged\` with the full
+settings, which \`room.joined\` also includes. Hosts and cohosts are exempt
+from the participant toggles: with \`chatEnabled\` or \`reactionsEnabled\`
+off, others get \`Chat is disabled\` or \`Reactions are disabled\`;
+\`screenShare: "hosts"\` stops their screen shares and rejects new ones;
+\`muteOnEntry\` and \`camerasOffOnEntry\` switch their devices off at
+\`room.join\`. \`maxParticipants\` and \`allowGuests\` turn newcomers away
+with the \`room/full\` and \`meeting/guests-not-allowed\` problems.
+
+### Lock Meeting
+
+\`\`\`json
+{
+  "type": "moderation.lock",
+  "requestId": "lock-1"
+}
+\`\`\`
+
+While locked, nobody except the host and cohosts can get a room token or
+finish \`room.join\`; they receive the \`room/locked\` problem. Participants
+already in the meeting stay connected and can reconnect, with a new room
+token once theirs has expired. Send
+\`moderation.unlock\` to open the meeting again; everyone receives
+\`room.lock.changed\`.
+
+### Ask to Unmute
+
+\`\`\`json
+{
+  "type": "moderation.requestUnmute",
+  "requestId": "ask-1",
+  "payload": { "participantId": "participant-id" }
+}
+\`\`\`
+
+Everyone receives \`media.request.created\`; the participant answers with
+\`media.answerUnmute\` (\`{ "accept": true }\`). Participants ask to present
+with \`media.requestScreen\` and hosts answer with
+\`moderation.answerScreen\` (\`{ "participantId", "accept" }\`). Every
+request ends with \`media.request.resolved\`, and unanswered requests
+expire. Pending requests are listed as \`requests\` in \`room.joined\` and
+\`room.resumed\`.
+
 ### Remove Participant
 
 \`\`\`json
@@ -191,12 +430,43 @@ Error response:
   "type": "moderation.remove",
   "requestId": "remove-123",
   "payload": {
-    "participantId": "participant-id-to-remove"
+    "participantId": "participant-id-to-remove",
+    "ban": true,
+    "reason": "Spamming the chat"
   }
 }
 \`\`\`
 
-## Lobby Management (Host only)
+Removed participants are banned by default: their account, guest
+fingerprint and participant ID can no longer get a room token or join.
+Guests only stay out while they send the same fingerprint; it is optional
+and every anonymous room token creates a new participant.
+Send \`ban: false\` to let them rejoin. Hosts lift bans with
+\`DELETE /v1/meetings/{id}/bans/{banId}\`.
+
+### End Meeting
+
+\`\`\`json
+{
+  "type": "room.end",
+  "requestId": "end-1"
+}
+\`\`\`
+
+Only the host can end the meeting (also available as
+\`POST /v1/meetings/{id}/end\`). Everyone receives \`room.ended\` and is
+disconnected; guests waiting in the lobby get \`lobby.result\` with reason
+\`ended\`.
+
+## Lobby Management (Host/Cohost only)
+
+When the meeting has a waiting room, guests the auto-admit policy does not
+let in get \`room.waiting\` in reply to \`room.join\` and wait for a host or
+cohost. Hosts and cohosts receive \`lobby.waiting\` and \`lobby.left\` events
+and can use \`lobby.admit\`, \`lobby.admitAll\` and \`lobby.reject\`. The
+waiting participant receives \`lobby.result\`, followed by \`room.joined\`
+when admitted; rejected or timed-out participants get the \`lobby/rejected\`
+or \`lobby/timeout\` problem and are disconnected.
 
 ### Admit from Lobby
 
@@ -244,82 +514,21 @@ Error response:
   open(ws) {
     ws.data = {
       authenticated: false,
+      lastSeenAt: Date.now(),
     } as WSContext;
+    wsState.track(ws as unknown as SocketWithContext);
     console.log('WebSocket connection opened');
   },
   async message(ws, message) {
     try {
       const socket = ws as SocketWithContext;
-      const msg =
-        typeof message === 'string'
-          ? JSON.parse(message)
-          : (message as WSMessage);
-
-      console.log('Received message:', msg.type);
-
-      // Handle authentication
-      if (msg.type === 'auth.authenticate') {
-        await handleAuthenticate(socket, msg, this.access);
-        return;
-      }
-
-      // All other messages require authentication
-      if (!socket.data.authenticated) {
-        const response: WSResponse = {
-          type: 'error',
-          requestId: msg.requestId,
-          error: 'Not authenticated',
-        };
-        socket.send(JSON.stringify(response));
-        return;
-      }
-
-      // Route messages to handlers
-      switch (msg.type) {
-        case 'room.join':
-          await handleRoomJoin(socket, msg, token => this.room.verify(token));
-          break;
-        case 'room.leave':
-          await handleRoomLeave(socket, msg);
-          break;
-        case 'rtc.signal':
-          handleRTCSignal(socket, msg);
-          break;
-        case 'media.update':
-          await handleMediaUpdate(socket, msg);
-          break;
-        case 'chat.send':
-          await handleChatSend(socket, msg);
-          break;
-        case 'reaction.send':
-          await handleReactionSend(socket, msg);
-          break;
-        case 'hand.raise':
-          await handleHandRaise(socket, msg);
-          break;
-        case 'hand.lower':
-          await handleHandLower(socket, msg);
-          break;
-        case 'moderation.mute':
-          await handleModerationMute(socket, msg);
-          break;
-        case 'moderation.remove':
-          await handleModerationRemove(socket, msg);
-          break;
-        case 'lobby.admit':
-          await handleLobbyAdmit(socket, msg);
-          break;
-        case 'lobby.reject':
-          await handleLobbyReject(socket, msg);
-          break;
-        default:
-          const response: WSResponse = {
-            type: 'error',
-            requestId: msg.requestId,
-            error: `Unknown message type: ${msg.type}`,
-          };
-          socket.send(JSON.stringify(response));
-      }
+      socket.data.lastSeenAt = Date.now();
+
+      // Payloads are validated per message type before reaching a handler
+      await dispatchMessage(socket, message, {
+        verifyAccessToken: token => this.access.verify(token),
+        verifyRoomToken: token => this.room.verify(token),
+      });
     } catch (error) {
       console.error('Error handling WebSocket message:', error);
       const errorResponse: WSResponse = {
@@ -331,52 +540,8 @@ Error response:
   },
   close(ws) {
     const socket = ws as SocketWithContext;
-    if (socket.data.meetingId && socket.data.participantId) {
-      wsState.removeFromRoom(socket.data.meetingId, socket.data.participantId);
-    }
+    wsState.untrack(socket);
+    handleRoomDisconnect(socket);
     console.log('WebSocket connection closed');
   },
 });
-
-async function handleAuthenticate(
-  socket: SocketWithContext,
-  message: WSMessage<{ accessToken: string }>,
-  accessJwt: any
-) {
-  try {
-    const { accessToken } = message.payload!;
-
-    const payload = (await accessJwt.verify(accessToken)) as
-      | AccessTokenPayload
-      | false;
-    if (!payload) {
-      const response: WSResponse = {
-        type: 'auth.error',
-        requestId: message.requestId,
-        error: 'Invalid access token',
-      };
-      socket.send(JSON.stringify(response));
-      return;
-    }
-
-    socket.data.authenticated = true;
-    socket.data.userId = payload.sub;
-
-    const response: WSResponse = {
-      type: 'auth.ok',
-      requestId: message.requestId,
-      payload: {
-        userId: payload.sub,
-      },
-    };
-    socket.send(JSON.stringify(response));
-  } catch (error) {
-    console.error('Authentication error:', error);
-    const response: WSResponse = {
-      type: 'auth.error',
-      requestId: message.requestId,
-      error: 'Authentication failed',
-    };
-    socket.send(JSON.stringify(response));
-  }
-}
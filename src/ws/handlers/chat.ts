@@ -1,42 +1,570 @@
-import type { SocketWithContext, ChatSendMessage } from '../types';
+import type {
+  SocketWithContext,
+  ChatSendMessage,
+  ChatEditMessage,
+  ChatDeleteMessage,
+  ChatRedactMessage,
+  ChatReactMessage,
+  ChatUnreactMessage,
+  ChatTypingMessage,
+  ChatReadMessage,
+} from '../types';
 import type { WSResponse } from '../../common/types';
 import { wsState } from '../state';
+import { roomRoster } from '../roster';
 import { publishToMeeting } from '../redis';
+import { sendAck, sendError } from '../reply';
+import {
+  chatService,
+  type ChatAudience,
+  type ChatMessageRow,
+} from '../../chat/service';
+import { resolveMentions } from '../../chat/mentions';
+import { meetingsService } from '../../meetings/service';
+import { participantsService } from '../../participants/service';
+import { typingTracker } from '../typing';
+import { can, type Capability } from '../../common/permissions';
 import { ulid } from 'ulid';
 
+// Hosts and cohosts keep chat and reactions when the meeting settings turn
+// them off for everyone else
+const isTurnedOff = async (
+  meetingId: string,
+  perms: Capability[] | undefined,
+  setting: 'chatEnabled' | 'reactionsEnabled'
+) =>
+  !can(perms, 'moderate') &&
+  !(await meetingsService.getSettings(meetingId))[setting];
+
+// Send a chat event to everyone allowed to see the message it refers to:
+// the whole room, the author and recipients of a direct message, or the
+// author and the moderators for the moderators channel
+const deliverChatEvent = async (
+  chatMessage: ChatMessageRow,
+  event: WSResponse
+) => {
+  const { meetingId } = chatMessage;
+
+  if (chatMessage.audience === 'everyone') {
+    wsState.broadcastToRoom(meetingId, event);
+    await publishToMeeting(meetingId, event);
+    return;
+  }
+
+  const targets = [chatMessage.participantId];
+  if (chatMessage.audience === 'direct') {
+    targets.push(...(chatMessage.recipients ?? []));
+  } else {
+    const roster = await roomRoster.list(meetingId);
+    targets.push(
+      ...roster
+        .filter(entry => can(entry.perms, 'moderate'))
+        .map(entry => entry.participantId)
+    );
+  }
+
+  await Promise.all(
+    [...new Set(targets)].map(participantId =>
+      wsState.sendToParticipant(meetingId, participantId, event)
+    )
+  );
+};
+
+// Participants in the room mentioned by `@name` who can also see the message
+const findMentions = async (
+  chatMessage: Pick<
+    ChatMessageRow,
+    'audience' | 'participantId' | 'recipients'
+  >,
+  meetingId: string,
+  text: string
+) => {
+  const roster = await roomRoster.list(meetingId);
+  const candidates = roster.filter(
+    entry =>
+      entry.participantId !== chatMessage.participantId &&
+      chatService.isVisibleTo(chatMessage, {
+        participantId: entry.participantId,
+        moderator: can(entry.perms, 'moderate'),
+      })
+  );
+
+  return resolveMentions(text, candidates);
+};
+
+const notifyMentions = async (
+  meetingId: string,
+  participantIds: string[],
+  payload: ReturnType<typeof chatService.serialize>
+) => {
+  const mentionMessage = { type: 'chat.mention', payload };
+
+  await Promise.all(
+    participantIds.map(participantId =>
+      wsState.sendToParticipant(meetingId, participantId, mentionMessage)
+    )
+  );
+};
+
 export const handleChatSend = async (
   socket: SocketWithContext,
   message: ChatSendMessage
 ) => {
   try {
-    const { meetingId, participantId, displayName } = socket.data;
+    const { meetingId, participantId, displayName, perms } = socket.data;
 
     if (!meetingId || !participantId) {
-      const response: WSResponse = {
-        type: 'error',
-        requestId: message.requestId,
-        error: 'Not in a room',
-      };
-      socket.send(JSON.stringify(response));
+      sendError(socket, message.requestId, 'Not in a room');
+      return;
+    }
+
+    if (await isTurnedOff(meetingId, perms, 'chatEnabled')) {
+      sendError(socket, message.requestId, 'Chat is disabled');
+      return;
+    }
+
+    const { text, to, replyTo } = message.payload!;
+    const isModerator = can(perms, 'moderate');
+    let audience: ChatAudience = message.payload!.audience ?? 'everyone';
+    let recipients: string[] | null = null;
+
+    if (to) {
+      recipients = [...new Set(typeof to === 'string' ? [to] : to)].filter(
+        id => id !== participantId
+      );
+      if (recipients.length === 0) {
+        sendError(socket, message.requestId, 'No recipients');
+        return;
+      }
+
+      // Hosts and cohosts can always reach participants privately
+      if (!isModerator) {
+        const settings = await meetingsService.getSettings(meetingId);
+        if (!settings.privateChat) {
+          sendError(socket, message.requestId, 'Private chat is disabled');
+          return;
+        }
+      }
+
+      const entries = await Promise.all(
+        recipients.map(id => roomRoster.get(meetingId, id))
+      );
+      if (entries.some(entry => !entry)) {
+        sendError(socket, message.requestId, 'Participant not found');
+        return;
+      }
+
+      audience = 'direct';
+    } else if (audience === 'moderators' && !isModerator) {
+      sendError(socket, message.requestId, 'Insufficient permissions');
       return;
     }
 
-    const { text } = message.payload!;
+    if (replyTo) {
+      const parent = await chatService.findById(replyTo);
+      if (
+        !parent ||
+        parent.meetingId !== meetingId ||
+        !chatService.isVisibleTo(parent, {
+          participantId,
+          moderator: isModerator,
+        })
+      ) {
+        sendError(socket, message.requestId, 'Message not found');
+        return;
+      }
+    }
+
+    const mentions = await findMentions(
+      { audience, participantId, recipients },
+      meetingId,
+      text
+    );
+
+    const stored = await chatService.create({
+      id: ulid(),
+      meetingId,
+      participantId,
+      senderName: displayName || 'Guest',
+      text,
+      audience,
+      recipients,
+      replyToId: replyTo ?? null,
+      mentions,
+      createdAt: new Date(),
+    });
 
     const chatMessage = {
       type: 'chat.message',
+      payload: chatService.serialize(stored),
+    };
+
+    await typingTracker.stop(meetingId, participantId);
+    await deliverChatEvent(stored, chatMessage);
+    await notifyMentions(meetingId, mentions, chatMessage.payload);
+
+    await sendAck(socket, message, {
+      id: chatMessage.payload.id,
+      ts: chatMessage.payload.ts,
+    });
+  } catch (error) {
+    console.error('Error handling chat.send:', error);
+    sendError(socket, message.requestId, 'Failed to send message');
+  }
+};
+
+// Look up a message for edit/delete/redact, making sure it belongs to the
+// caller's meeting and has not been deleted already
+const findEditableMessage = async (
+  socket: SocketWithContext,
+  requestId: string | undefined,
+  messageId: string
+) => {
+  const chatMessage = await chatService.findById(messageId);
+
+  if (
+    !chatMessage ||
+    chatMessage.meetingId !== socket.data.meetingId ||
+    chatMessage.deletedAt
+  ) {
+    sendError(socket, requestId, 'Message not found');
+    return null;
+  }
+
+  return chatMessage;
+};
+
+export const handleChatEdit = async (
+  socket: SocketWithContext,
+  message: ChatEditMessage
+) => {
+  try {
+    const { meetingId, participantId, perms } = socket.data;
+
+    if (!meetingId || !participantId) {
+      sendError(socket, message.requestId, 'Not in a room');
+      return;
+    }
+
+    if (await isTurnedOff(meetingId, perms, 'chatEnabled')) {
+      sendError(socket, message.requestId, 'Chat is disabled');
+      return;
+    }
+
+    const { messageId, text } = message.payload!;
+    const chatMessage = await findEditableMessage(
+      socket,
+      message.requestId,
+      messageId
+    );
+    if (!chatMessage) return;
+
+    if (chatMessage.participantId !== participantId) {
+      sendError(
+        socket,
+        message.requestId,
+        'You can only edit your own messages'
+      );
+      return;
+    }
+
+    const mentions = await findMentions(chatMessage, meetingId, text);
+    const updated = await chatService.edit(
+      messageId,
+      text,
+      mentions,
+      participantId
+    );
+
+    const chatUpdatedMessage = {
+      type: 'chat.updated',
       payload: {
-        id: ulid(),
-        participantId,
-        sender: displayName,
-        text,
-        ts: new Date().toISOString(),
+        id: updated.id,
+        text: updated.text,
+        mentions: updated.mentions,
+        editedAt: updated.editedAt!.toISOString(),
+        editedBy: participantId,
       },
     };
 
-    wsState.broadcastToRoom(meetingId, chatMessage);
-    await publishToMeeting(meetingId, chatMessage);
+    await deliverChatEvent(updated, chatUpdatedMessage);
+
+    // Only people newly mentioned by the edit are notified
+    const newMentions = mentions.filter(
+      id => !chatMessage.mentions.includes(id)
+    );
+    if (newMentions.length > 0) {
+      const reactions = await chatService.listReactions(updated.id);
+      await notifyMentions(
+        meetingId,
+        newMentions,
+        chatService.serialize({ ...updated, reactions })
+      );
+    }
+
+    await sendAck(socket, message, { id: updated.id });
   } catch (error) {
-    console.error('Error handling chat.send:', error);
+    console.error('Error handling chat.edit:', error);
+    sendError(socket, message.requestId, 'Failed to edit message');
+  }
+};
+
+export const handleChatDelete = async (
+  socket: SocketWithContext,
+  message: ChatDeleteMessage
+) => {
+  try {
+    const { meetingId, participantId } = socket.data;
+
+    if (!meetingId || !participantId) {
+      sendError(socket, message.requestId, 'Not in a room');
+      return;
+    }
+
+    const { messageId } = message.payload!;
+    const chatMessage = await findEditableMessage(
+      socket,
+      message.requestId,
+      messageId
+    );
+    if (!chatMessage) return;
+
+    if (chatMessage.participantId !== participantId) {
+      sendError(
+        socket,
+        message.requestId,
+        'You can only delete your own messages'
+      );
+      return;
+    }
+
+    const deleted = await chatService.softDelete(messageId, participantId);
+
+    const chatDeletedMessage = {
+      type: 'chat.deleted',
+      payload: {
+        id: deleted.id,
+        deletedAt: deleted.deletedAt!.toISOString(),
+        deletedBy: participantId,
+        redacted: false,
+      },
+    };
+
+    await deliverChatEvent(deleted, chatDeletedMessage);
+
+    await sendAck(socket, message, { id: deleted.id });
+  } catch (error) {
+    console.error('Error handling chat.delete:', error);
+    sendError(socket, message.requestId, 'Failed to delete message');
+  }
+};
+
+export const handleChatRedact = async (
+  socket: SocketWithContext,
+  message: ChatRedactMessage
+) => {
+  try {
+    const { meetingId, participantId } = socket.data;
+
+    if (!meetingId || !participantId) {
+      sendError(socket, message.requestId, 'Not in a room');
+      return;
+    }
+
+    const { messageId, reason } = message.payload!;
+    const chatMessage = await findEditableMessage(
+      socket,
+      message.requestId,
+      messageId
+    );
+    if (!chatMessage) return;
+
+    const deleted = await chatService.softDelete(messageId, participantId);
+
+    const chatDeletedMessage = {
+      type: 'chat.deleted',
+      payload: {
+        id: deleted.id,
+        deletedAt: deleted.deletedAt!.toISOString(),
+        deletedBy: participantId,
+        redacted: true,
+        reason,
+      },
+    };
+
+    await deliverChatEvent(deleted, chatDeletedMessage);
+
+    await sendAck(socket, message, { id: deleted.id });
+  } catch (error) {
+    console.error('Error handling chat.redact:', error);
+    sendError(socket, message.requestId, 'Failed to redact message');
+  }
+};
+
+const handleReactionChange = async (
+  socket: SocketWithContext,
+  message: ChatReactMessage | ChatUnreactMessage,
+  change: 'add' | 'remove'
+) => {
+  const { meetingId, participantId, perms } = socket.data;
+
+  if (!meetingId || !participantId) {
+    sendError(socket, message.requestId, 'Not in a room');
+    return;
+  }
+
+  // Taking a reaction back is always possible
+  if (
+    change === 'add' &&
+    (await isTurnedOff(meetingId, perms, 'reactionsEnabled'))
+  ) {
+    sendError(socket, message.requestId, 'Reactions are disabled');
+    return;
+  }
+
+  const { messageId, emoji } = message.payload!;
+  const chatMessage = await findEditableMessage(
+    socket,
+    message.requestId,
+    messageId
+  );
+  if (!chatMessage) return;
+
+  const canSee = chatService.isVisibleTo(chatMessage, {
+    participantId,
+    moderator: can(perms, 'moderate'),
+  });
+  if (!canSee) {
+    sendError(socket, message.requestId, 'Message not found');
+    return;
+  }
+
+  const reactions =
+    change === 'add'
+      ? await chatService.addReaction(messageId, participantId, emoji)
+      : await chatService.removeReaction(messageId, participantId, emoji);
+
+  const reactionsChangedMessage = {
+    type: 'chat.reactions.changed',
+    payload: { id: messageId, reactions },
+  };
+
+  await deliverChatEvent(chatMessage, reactionsChangedMessage);
+
+  await sendAck(socket, message, { id: messageId });
+};
+
+export const handleChatReact = async (
+  socket: SocketWithContext,
+  message: ChatReactMessage
+) => {
+  try {
+    await handleReactionChange(socket, message, 'add');
+  } catch (error) {
+    console.error('Error handling chat.react:', error);
+    sendError(socket, message.requestId, 'Failed to add reaction');
+  }
+};
+
+export const handleChatUnreact = async (
+  socket: SocketWithContext,
+  message: ChatUnreactMessage
+) => {
+  try {
+    await handleReactionChange(socket, message, 'remove');
+  } catch (error) {
+    console.error('Error handling chat.unreact:', error);
+    sendError(socket, message.requestId, 'Failed to remove reaction');
+  }
+};
+
+export const handleChatTyping = async (
+  socket: SocketWithContext,
+  message: ChatTypingMessage
+) => {
+  try {
+    const { meetingId, participantId, perms } = socket.data;
+
+    if (!meetingId || !participantId) {
+      sendError(socket, message.requestId, 'Not in a room');
+      return;
+    }
+
+    if (message.payload!.typing === false) {
+      await typingTracker.stop(meetingId, participantId);
+    } else {
+      if (await isTurnedOff(meetingId, perms, 'chatEnabled')) {
+        sendError(socket, message.requestId, 'Chat is disabled');
+        return;
+      }
+
+      await typingTracker.start(meetingId, participantId);
+    }
+
+    await sendAck(socket, message);
+  } catch (error) {
+    console.error('Error handling chat.typing:', error);
+    sendError(socket, message.requestId, 'Failed to update typing state');
+  }
+};
+
+// Read positions only move forward; the ack carries the unread count so
+// clients can reset their badges
+export const handleChatRead = async (
+  socket: SocketWithContext,
+  message: ChatReadMessage
+) => {
+  try {
+    const { meetingId, participantId, perms } = socket.data;
+
+    if (!meetingId || !participantId) {
+      sendError(socket, message.requestId, 'Not in a room');
+      return;
+    }
+
+    const viewer = {
+      participantId,
+      moderator: can(perms, 'moderate'),
+    };
+    const { messageId } = message.payload!;
+    const chatMessage = await chatService.findById(messageId);
+
+    if (
+      !chatMessage ||
+      chatMessage.meetingId !== meetingId ||
+      !chatService.isVisibleTo(chatMessage, viewer)
+    ) {
+      sendError(socket, message.requestId, 'Message not found');
+      return;
+    }
+
+    const participant = await participantsService.findById(participantId);
+    let lastReadMessageId = participant?.lastReadMessageId ?? null;
+
+    if (!lastReadMessageId || messageId > lastReadMessageId) {
+      await participantsService.updateLastRead(participantId, messageId);
+      lastReadMessageId = messageId;
+
+      const readChangedMessage = {
+        type: 'chat.read.changed',
+        payload: {
+          participantId,
+          messageId,
+        },
+      };
+
+      await deliverChatEvent(chatMessage, readChangedMessage);
+    }
+
+    const unread = await chatService.countUnread(
+      meetingId,
+      viewer,
+      lastReadMessageId
+    );
+
+    await sendAck(socket, message, { lastReadMessageId, unread });
+  } catch (error) {
+    console.error('Error handling chat.read:', error);
+    sendError(socket, message.requestId, 'Failed to mark messages as read');
   }
 };
@@ -0,0 +1,60 @@
+import type {
+  SocketWithContext,
+  AuthenticateMessage,
+  PingMessage,
+} from '../types';
+import type { WSResponse } from '../../common/types';
+import type { AccessTokenPayload } from '../../auth/types';
+
+export const handlePing = (socket: SocketWithContext, message: PingMessage) => {
+  const response: WSResponse = {
+    type: 'pong',
+    requestId: message.requestId,
+    payload: {
+      ts: new Date().toISOString(),
+    },
+  };
+  socket.send(JSON.stringify(response));
+};
+
+export const handleAuthenticate = async (
+  socket: SocketWithContext,
+  message: AuthenticateMessage,
+  verifyAccessToken: (token: string) => Promise<any>
+) => {
+  try {
+    const { accessToken } = message.payload!;
+
+    const payload = (await verifyAccessToken(accessToken)) as
+      AccessTokenPayload | false;
+    if (!payload) {
+      const response: WSResponse = {
+        type: 'auth.error',
+        requestId: message.requestId,
+        error: 'Invalid access token',
+      };
+      socket.send(JSON.stringify(response));
+      return;
+    }
+
+    socket.data.authenticated = true;
+    socket.data.userId = payload.sub;
+
+    const response: WSResponse = {
+      type: 'auth.ok',
+      requestId: message.requestId,
+      payload: {
+        userId: payload.sub,
+      },
+    };
+    socket.send(JSON.stringify(response));
+  } catch (error) {
+    console.error('Authentication error:', error);
+    const response: WSResponse = {
+      type: 'auth.error',
+      requestId: message.requestId,
+      error: 'Authentication failed',
+    };
+    socket.send(JSON.stringify(response));
+  }
+};
@@ -1,42 +1,257 @@
 import type {
   SocketWithContext,
   LobbyAdmitMessage,
+  LobbyAdmitAllMessage,
   LobbyRejectMessage,
 } from '../types';
 import type { WSResponse } from '../../common/types';
+import { participantsService } from '../../participants/service';
+import { errors } from '../../common/errors';
+import { can } from '../../common/permissions';
 import { wsState } from '../state';
+import { roomRoster } from '../roster';
+import { lobbyStore, type LobbyEntry } from '../lobby';
+import { sendAck, sendError } from '../reply';
+import { env } from '../../env';
+
+// participantId -> automatic rejection of a guest nobody has admitted
+const lobbyTimeouts = new Map<string, ReturnType<typeof setTimeout>>();
+
+const toWaitingParticipant = (entry: LobbyEntry) => ({
+  participantId: entry.participantId,
+  displayName: entry.displayName,
+  waitingSince: entry.waitingSince,
+});
+
+// Lobby events only go to the people who can act on them
+const notifyModerators = async (meetingId: string, message: WSResponse) => {
+  const roster = await roomRoster.list(meetingId);
+
+  await Promise.all(
+    roster
+      .filter(entry => can(entry.perms, 'admit'))
+      .map(entry =>
+        wsState.sendToParticipant(meetingId, entry.participantId, message)
+      )
+  );
+};
+
+export const listLobby = async (meetingId: string) => {
+  const entries = await lobbyStore.list(meetingId);
+  return entries.map(toWaitingParticipant);
+};
+
+// Stop tracking a waiting socket on this node
+export const releaseWaiting = (socket: SocketWithContext) => {
+  const { lobby } = socket.data;
+  if (!lobby) return;
+
+  clearTimeout(lobbyTimeouts.get(lobby.participantId));
+  lobbyTimeouts.delete(lobby.participantId);
+  wsState.removeFromLobby(lobby.participantId, socket);
+  socket.data.lobby = undefined;
+};
+
+const turnAwayErrors = {
+  rejected: errors.lobby.rejected,
+  timeout: errors.lobby.timedOut,
+  ended: errors.room.alreadyEnded,
+  full: errors.room.full,
+};
+
+// Tell a released participant why they cannot join and close the connection
+export const turnAway = async (
+  socket: SocketWithContext,
+  participantId: string,
+  reason: keyof typeof turnAwayErrors
+) => {
+  await participantsService.updateLeftAt(participantId);
+
+  const error = turnAwayErrors[reason]();
+  const rejectedMessage: WSResponse = {
+    type: 'lobby.result',
+    payload: {
+      admitted: false,
+      reason,
+      error: error.toJSON(),
+    },
+  };
+  socket.send(JSON.stringify(rejectedMessage));
+  socket.close();
+};
+
+const expireWaiting = async (socket: SocketWithContext) => {
+  const { lobby } = socket.data;
+  if (!lobby) return;
+
+  // A host may have decided just before the timeout; their decision wins
+  const entry = await lobbyStore.take(lobby.meetingId, lobby.participantId);
+  if (!entry) return;
+
+  releaseWaiting(socket);
+  await turnAway(socket, lobby.participantId, 'timeout');
+  await notifyModerators(lobby.meetingId, {
+    type: 'lobby.left',
+    payload: {
+      participantId: lobby.participantId,
+      reason: 'timeout',
+    },
+  });
+};
+
+// Park a joining participant in the lobby. The socket keeps no meetingId, so
+// it receives no room events and every room command answers 'Not in a room'.
+export const enterLobby = async (
+  socket: SocketWithContext,
+  meetingId: string,
+  participantId: string,
+  requestId?: string
+) => {
+  const entry = {
+    participantId,
+    displayName: socket.data.displayName || 'Guest',
+    waitingSince: new Date().toISOString(),
+  };
+
+  socket.data.lobby = { meetingId, participantId };
+  wsState.addToLobby(participantId, socket);
+  await lobbyStore.add(meetingId, entry);
+
+  if (env.LOBBY_TIMEOUT_MS > 0) {
+    lobbyTimeouts.set(
+      participantId,
+      setTimeout(() => {
+        lobbyTimeouts.delete(participantId);
+        expireWaiting(socket).catch(error =>
+          console.error('Error expiring lobby wait:', error)
+        );
+      }, env.LOBBY_TIMEOUT_MS)
+    );
+  }
+
+  const waitingResponse: WSResponse = {
+    type: 'room.waiting',
+    requestId,
+    payload: {
+      meetingId,
+      participantId,
+      timeoutMs: env.LOBBY_TIMEOUT_MS || null,
+    },
+  };
+  socket.send(JSON.stringify(waitingResponse));
+
+  await notifyModerators(meetingId, {
+    type: 'lobby.waiting',
+    payload: entry,
+  });
+};
+
+// The waiting participant gave up (room.leave, disconnect or dead socket)
+export const leaveLobby = async (socket: SocketWithContext) => {
+  const { lobby } = socket.data;
+  if (!lobby) return;
+
+  releaseWaiting(socket);
+
+  const entry = await lobbyStore.take(lobby.meetingId, lobby.participantId);
+  if (!entry) return;
+
+  await participantsService.updateLeftAt(lobby.participantId);
+  await notifyModerators(lobby.meetingId, {
+    type: 'lobby.left',
+    payload: {
+      participantId: lobby.participantId,
+      reason: 'left',
+    },
+  });
+};
+
+// Send a decision for an entry already taken from the lobby store
+const settle = async (
+  meetingId: string,
+  entry: LobbyEntry,
+  decision: 'admit' | 'reject',
+  by: string
+) => {
+  await wsState.sendLobbyDecision(entry.nodeId, {
+    meetingId,
+    participantId: entry.participantId,
+    decision,
+  });
+
+  await notifyModerators(meetingId, {
+    type: 'lobby.left',
+    payload: {
+      participantId: entry.participantId,
+      reason: decision === 'admit' ? 'admitted' : 'rejected',
+      by,
+    },
+  });
+};
+
+const decide = async (
+  socket: SocketWithContext,
+  message: LobbyAdmitMessage | LobbyRejectMessage,
+  decision: 'admit' | 'reject'
+) => {
+  const { meetingId, participantId } = socket.data;
+  const targetId = message.payload!.participantId;
+
+  const entry = await lobbyStore.take(meetingId!, targetId);
+  if (!entry) {
+    sendError(socket, message.requestId, 'Participant not in lobby');
+    return;
+  }
+
+  await settle(meetingId!, entry, decision, participantId!);
+
+  await sendAck(socket, message, { participantId: targetId });
+};
 
 export const handleLobbyAdmit = async (
   socket: SocketWithContext,
   message: LobbyAdmitMessage
 ) => {
   try {
-    const { meetingId, role } = socket.data;
-
-    if (!meetingId || role !== 'host') {
-      const response: WSResponse = {
-        type: 'error',
-        requestId: message.requestId,
-        error: 'Only hosts can admit participants',
-      };
-      socket.send(JSON.stringify(response));
+    const { meetingId } = socket.data;
+
+    if (!meetingId) {
+      sendError(socket, message.requestId, 'Not in a room');
       return;
     }
 
-    const targetId = message.payload!.participantId;
-    const targetSocket = wsState.getSocket(meetingId, targetId);
-
-    if (targetSocket) {
-      const admittedMessage: WSResponse = {
-        type: 'lobby.result',
-        payload: {
-          admitted: true,
-        },
-      };
-      targetSocket.send(JSON.stringify(admittedMessage));
-    }
+    await decide(socket, message, 'admit');
   } catch (error) {
     console.error('Error handling lobby.admit:', error);
+    sendError(socket, message.requestId, 'Failed to admit participant');
+  }
+};
+
+export const handleLobbyAdmitAll = async (
+  socket: SocketWithContext,
+  message: LobbyAdmitAllMessage
+) => {
+  try {
+    const { meetingId, participantId } = socket.data;
+
+    if (!meetingId || !participantId) {
+      sendError(socket, message.requestId, 'Not in a room');
+      return;
+    }
+
+    const admitted: string[] = [];
+    for (const waiting of await lobbyStore.list(meetingId)) {
+      const entry = await lobbyStore.take(meetingId, waiting.participantId);
+      if (!entry) continue;
+
+      await settle(meetingId, entry, 'admit', participantId);
+      admitted.push(entry.participantId);
+    }
+
+    await sendAck(socket, message, { participantIds: admitted });
+  } catch (error) {
+    console.error('Error handling lobby.admitAll:', error);
+    sendError(socket, message.requestId, 'Failed to admit participants');
   }
 };
 
@@ -45,31 +260,16 @@ export const handleLobbyReject = async (
   message: LobbyRejectMessage
 ) => {
   try {
-    const { meetingId, role } = socket.data;
-
-    if (!meetingId || role !== 'host') {
-      const response: WSResponse = {
-        type: 'error',
-        requestId: message.requestId,
-        error: 'Only hosts can reject participants',
-      };
-      socket.send(JSON.stringify(response));
+    const { meetingId } = socket.data;
+
+    if (!meetingId) {
+      sendError(socket, message.requestId, 'Not in a room');
       return;
     }
 
-    const targetId = message.payload!.participantId;
-    const targetSocket = wsState.getSocket(meetingId, targetId);
-
-    if (targetSocket) {
-      const rejectedMessage: WSResponse = {
-        type: 'lobby.result',
-        payload: {
-          admitted: false,
-        },
-      };
-      targetSocket.send(JSON.stringify(rejectedMessage));
-    }
+    await decide(socket, message, 'reject');
   } catch (error) {
     console.error('Error handling lobby.reject:', error);
+    sendError(socket, message.requestId, 'Failed to reject participant');
   }
 };
@@ -1,30 +1,69 @@
 import type { SocketWithContext, MediaUpdateMessage } from '../types';
-import type { WSResponse } from '../../common/types';
 import { wsState } from '../state';
+import { roomRoster } from '../roster';
+import { roomControls } from '../controls';
+import { can } from '../../common/permissions';
+import { meetingsService } from '../../meetings/service';
 import { publishToMeeting } from '../redis';
+import { sendAck, sendError } from '../reply';
 
 export const handleMediaUpdate = async (
   socket: SocketWithContext,
   message: MediaUpdateMessage
 ) => {
   try {
-    const { meetingId, participantId } = socket.data;
+    const { meetingId, participantId, perms } = socket.data;
 
     if (!meetingId || !participantId) {
-      const response: WSResponse = {
-        type: 'error',
-        requestId: message.requestId,
-        error: 'Not in a room',
-      };
-      socket.send(JSON.stringify(response));
+      sendError(socket, message.requestId, 'Not in a room');
       return;
     }
 
-    if (socket.data.mediaState) {
-      socket.data.mediaState = {
-        ...socket.data.mediaState,
-        ...message.payload,
-      };
+    if (message.payload?.mic === 'on' && !can(perms, 'unmute')) {
+      sendError(socket, message.requestId, 'You are not allowed to unmute');
+      return;
+    }
+
+    // Without the grant, media.requestScreen asks a moderator for it
+    if (message.payload?.screen === 'on' && !can(perms, 'shareScreen')) {
+      sendError(
+        socket,
+        message.requestId,
+        'You are not allowed to share your screen'
+      );
+      return;
+    }
+
+    if (
+      message.payload?.screen === 'on' &&
+      !can(perms, 'moderate') &&
+      (await meetingsService.getSettings(meetingId)).screenShare === 'hosts'
+    ) {
+      sendError(
+        socket,
+        message.requestId,
+        'Screen sharing is limited to hosts'
+      );
+      return;
+    }
+
+    // Moderators keep their own mic while everyone else is locked
+    if (
+      message.payload?.mic === 'on' &&
+      !can(perms, 'moderate') &&
+      (await roomControls.get(meetingId)).micLocked
+    ) {
+      sendError(socket, message.requestId, 'Microphone is locked by the host');
+      return;
+    }
+
+    // Merged in the roster, which also reflects moderator mutes issued from
+    // other nodes
+    const entry = await roomRoster.update(meetingId, participantId, {
+      mediaState: message.payload,
+    });
+    if (entry) {
+      socket.data.mediaState = entry.mediaState;
     }
 
     const mediaChangedMessage = {
@@ -37,7 +76,10 @@ export const handleMediaUpdate = async (
 
     wsState.broadcastToRoom(meetingId, mediaChangedMessage, participantId);
     await publishToMeeting(meetingId, mediaChangedMessage);
+
+    await sendAck(socket, message, { mediaState: socket.data.mediaState });
   } catch (error) {
     console.error('Error handling media.update:', error);
+    sendError(socket, message.requestId, 'Failed to update media state');
   }
 };
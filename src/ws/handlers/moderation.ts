@@ -2,111 +2,763 @@ import type {
   SocketWithContext,
   ModerationMuteMessage,
   ModerationRemoveMessage,
+  ModerationMuteAllMessage,
+  ModerationLockMicMessage,
+  ModerationDisableCamMessage,
+  ModerationStopScreenMessage,
+  ModerationSetRoleMessage,
+  ModerationAssignRoleMessage,
+  ModerationTransferHostMessage,
+  ModerationLockMessage,
+  ModerationUnlockMessage,
+  ModerationUpdateSettingsMessage,
 } from '../types';
-import type { WSResponse } from '../../common/types';
+import type { WSResponse, ParticipantRole } from '../../common/types';
 import { wsState } from '../state';
+import { roomRoster, withSessionGrants } from '../roster';
+import { roomControls } from '../controls';
+import { leaveRoom } from './room';
+import { bansService } from '../../bans/service';
+import { participantsService } from '../../participants/service';
+import { meetingsService } from '../../meetings/service';
+import { meetingRolesService } from '../../roles/service';
+import type {
+  MeetingSettings,
+  MeetingSettingsPatch,
+} from '../../meetings/settings';
+import { can, type Capability } from '../../common/permissions';
 import { publishToMeeting } from '../redis';
+import { sendAck, sendError } from '../reply';
+
+type ForcedMedia = 'mic' | 'cam' | 'screen';
+
+// What the affected participant is told, so the client can stop its tracks
+const forcedEvents: Record<ForcedMedia, string> = {
+  mic: 'moderation.muted',
+  cam: 'moderation.camDisabled',
+  screen: 'moderation.screenStopped',
+};
+
+// Force one of a participant's media off. Returns false if they are not in
+// the room.
+export const forceMediaOff = async (
+  meetingId: string,
+  targetId: string,
+  by: string | undefined,
+  kind: ForcedMedia
+) => {
+  const target = await roomRoster.get(meetingId, targetId);
+  if (!target) return false;
+
+  const forcedMessage: WSResponse = {
+    type: forcedEvents[kind],
+    payload: {
+      by,
+    },
+  };
+  await wsState.sendToParticipant(meetingId, targetId, forcedMessage);
+
+  await roomRoster.update(meetingId, targetId, {
+    mediaState: { [kind]: 'off' },
+  });
+
+  const mediaChangedMessage = {
+    type: 'media.changed',
+    payload: {
+      participantId: targetId,
+      patch: { [kind]: 'off' },
+    },
+  };
+
+  wsState.broadcastToRoom(meetingId, mediaChangedMessage);
+  await publishToMeeting(meetingId, mediaChangedMessage);
+  return true;
+};
+
+// The host is out of reach of the other moderators
+const isHost = async (meetingId: string, participantId: string) =>
+  (await roomRoster.get(meetingId, participantId))?.role === 'host';
+
+// Force a participant's mic off. Returns false if they are not in the room.
+export const muteParticipant = (
+  meetingId: string,
+  targetId: string,
+  by: string
+) => forceMediaOff(meetingId, targetId, by, 'mic');
+
+const setMicLock = async (meetingId: string, locked: boolean, by: string) => {
+  const controls = await roomControls.update(meetingId, { micLocked: locked });
+
+  const controlsChangedMessage = {
+    type: 'room.controls.changed',
+    payload: {
+      ...controls,
+      by,
+    },
+  };
+
+  wsState.broadcastToRoom(meetingId, controlsChangedMessage);
+  await publishToMeeting(meetingId, controlsChangedMessage);
+  return controls;
+};
+
+// The lock is stored on the meeting, so every node and the room-token route
+// see it
+const setMeetingLock = async (
+  meetingId: string,
+  locked: boolean,
+  by: string
+) => {
+  await meetingsService.setLocked(meetingId, locked);
+
+  const lockChangedMessage = {
+    type: 'room.lock.changed',
+    payload: {
+      locked,
+      by,
+    },
+  };
+
+  wsState.broadcastToRoom(meetingId, lockChangedMessage);
+  await publishToMeeting(meetingId, lockChangedMessage);
+};
+
+// Announce updated settings (from REST or moderation.updateSettings) and
+// apply the parts that affect people already in the room
+export const applySettings = async (
+  meetingId: string,
+  settings: MeetingSettings,
+  patch: MeetingSettingsPatch,
+  by?: string
+) => {
+  const settingsChangedMessage = {
+    type: 'room.settingsChanged',
+    payload: {
+      settings,
+      by,
+    },
+  };
+
+  wsState.broadcastToRoom(meetingId, settingsChangedMessage);
+  await publishToMeeting(meetingId, settingsChangedMessage);
+
+  if (patch.permissions) {
+    await applyRolePermissions(meetingId);
+  }
+
+  if (patch.screenShare === 'hosts') {
+    for (const entry of await roomRoster.list(meetingId)) {
+      if (entry.mediaState.screen === 'on' && !can(entry.perms, 'moderate')) {
+        await forceMediaOff(meetingId, entry.participantId, by, 'screen');
+      }
+    }
+  }
+};
+
+// Persist a participant's new role and apply it, with the grants that come
+// with it, to their live socket on whichever node it is connected
+const changeRole = async (
+  meetingId: string,
+  targetId: string,
+  role: ParticipantRole,
+  by: string,
+  customRoleId: string | null = null
+) => {
+  const perms = withSessionGrants(
+    await meetingsService.resolveParticipantCapabilities(meetingId, {
+      role,
+      customRoleId,
+    }),
+    await roomRoster.get(meetingId, targetId)
+  );
+
+  await participantsService.updateRole(targetId, role, customRoleId);
+  await roomRoster.update(meetingId, targetId, { role, customRoleId, perms });
+  await grant(meetingId, targetId, role, customRoleId, perms);
+
+  const roleChangedMessage = {
+    type: 'participant.roleChanged',
+    payload: {
+      participantId: targetId,
+      role,
+      customRoleId,
+      by,
+    },
+  };
+
+  wsState.broadcastToRoom(meetingId, roleChangedMessage);
+  await publishToMeeting(meetingId, roleChangedMessage);
+};
+
+// Hand a participant's socket its new grants, wherever it is connected
+const grant = async (
+  meetingId: string,
+  participantId: string,
+  role: ParticipantRole,
+  customRoleId: string | null,
+  perms: Capability[]
+) => {
+  const permissionsChangedMessage: WSResponse = {
+    type: 'room.permissionsChanged',
+    payload: {
+      role,
+      customRoleId,
+      perms,
+    },
+  };
+  await wsState.sendToParticipant(
+    meetingId,
+    participantId,
+    permissionsChangedMessage,
+    { role, perms }
+  );
+};
+
+// Re-grant everyone in the room after the meeting's role permissions or
+// custom role definitions changed. Participants whose custom role was
+// deleted fall back to their built-in role.
+export const applyRolePermissions = async (meetingId: string) => {
+  for (const entry of await roomRoster.list(meetingId)) {
+    const participant = await participantsService.findById(entry.participantId);
+    if (!participant) continue;
+
+    const { role, customRoleId } = participant;
+    const perms = withSessionGrants(
+      await meetingsService.resolveParticipantCapabilities(
+        meetingId,
+        participant
+      ),
+      entry
+    );
+    const roleChanged = customRoleId !== (entry.customRoleId ?? null);
+    if (!roleChanged && perms.join() === entry.perms.join()) continue;
+
+    await roomRoster.update(meetingId, entry.participantId, {
+      customRoleId,
+      perms,
+    });
+    await grant(meetingId, entry.participantId, role, customRoleId, perms);
+
+    if (roleChanged) {
+      const roleChangedMessage = {
+        type: 'participant.roleChanged',
+        payload: {
+          participantId: entry.participantId,
+          role,
+          customRoleId,
+        },
+      };
+
+      wsState.broadcastToRoom(meetingId, roleChangedMessage);
+      await publishToMeeting(meetingId, roleChangedMessage);
+    }
+  }
+};
+
+// Custom roles were created, edited or deleted over REST
+export const applyMeetingRoles = async (meetingId: string) => {
+  const rolesChangedMessage = {
+    type: 'room.rolesChanged',
+    payload: {
+      roles: await meetingRolesService.findByMeeting(meetingId),
+    },
+  };
+
+  wsState.broadcastToRoom(meetingId, rolesChangedMessage);
+  await publishToMeeting(meetingId, rolesChangedMessage);
+
+  await applyRolePermissions(meetingId);
+};
+
+// Add one capability to a participant for the rest of their session, such as
+// screen sharing after a moderator accepted their request. It is kept through
+// later role changes.
+export const grantCapability = async (
+  meetingId: string,
+  participantId: string,
+  capability: Capability
+) => {
+  const entry = await roomRoster.get(meetingId, participantId);
+  if (!entry || can(entry.perms, capability)) return;
+
+  const perms = [...entry.perms, capability];
+  await roomRoster.update(meetingId, participantId, {
+    perms,
+    grants: [...(entry.grants ?? []), capability],
+  });
+  await grant(
+    meetingId,
+    participantId,
+    entry.role,
+    entry.customRoleId ?? null,
+    perms
+  );
+};
+
+// Kick a participant from the room, banning them from rejoining if asked.
+// Returns false if they are not in the room.
+export const removeParticipant = async (
+  meetingId: string,
+  targetId: string,
+  by: string,
+  reason = 'Removed by moderator',
+  options: { ban?: boolean } = {}
+) => {
+  const target = await roomRoster.get(meetingId, targetId);
+  if (!target) return false;
+
+  const kickedMessage: WSResponse = {
+    type: 'room.kicked',
+    payload: {
+      by,
+      reason,
+      banned: Boolean(options.ban),
+    },
+  };
+  const delivered = await wsState.sendToParticipant(
+    meetingId,
+    targetId,
+    kickedMessage,
+    { evict: true }
+  );
+  if (!delivered) return false;
+
+  // Only ban someone who was actually removed, so a failed removal leaves
+  // nothing behind
+  if (options.ban) {
+    await bansService.create(meetingId, targetId, by, reason);
+  }
+
+  await leaveRoom(meetingId, targetId);
+  return true;
+};
 
 export const handleModerationMute = async (
   socket: SocketWithContext,
   message: ModerationMuteMessage
 ) => {
   try {
-    const { meetingId, participantId, role } = socket.data;
+    const { meetingId, participantId } = socket.data;
 
     if (!meetingId || !participantId) {
+      sendError(socket, message.requestId, 'Not in a room');
       return;
     }
 
-    if (role !== 'host' && role !== 'cohost') {
-      const response: WSResponse = {
-        type: 'error',
-        requestId: message.requestId,
-        error: 'Insufficient permissions',
-      };
-      socket.send(JSON.stringify(response));
+    const targetId = message.payload!.participantId;
+    if (await isHost(meetingId, targetId)) {
+      sendError(socket, message.requestId, 'The host cannot be moderated');
       return;
     }
 
-    const targetId = message.payload!.participantId;
-    const targetSocket = wsState.getSocket(meetingId, targetId);
+    const muted = await muteParticipant(meetingId, targetId, participantId);
 
-    if (targetSocket) {
-      const muteMessage: WSResponse = {
-        type: 'moderation.muted',
-        payload: {
-          by: participantId,
-        },
-      };
-      targetSocket.send(JSON.stringify(muteMessage));
+    if (!muted) {
+      sendError(socket, message.requestId, 'Participant not found');
+      return;
+    }
+
+    await sendAck(socket, message, { participantId: targetId });
+  } catch (error) {
+    console.error('Error handling moderation.mute:', error);
+    sendError(socket, message.requestId, 'Failed to mute participant');
+  }
+};
+
+export const handleModerationRemove = async (
+  socket: SocketWithContext,
+  message: ModerationRemoveMessage
+) => {
+  try {
+    const { meetingId, participantId } = socket.data;
+
+    if (!meetingId || !participantId) {
+      sendError(socket, message.requestId, 'Not in a room');
+      return;
+    }
+
+    const { participantId: targetId, ban, reason } = message.payload!;
+    if (await isHost(meetingId, targetId)) {
+      sendError(socket, message.requestId, 'The host cannot be moderated');
+      return;
+    }
 
-      if (targetSocket.data.mediaState) {
-        targetSocket.data.mediaState.mic = 'off';
+    const removed = await removeParticipant(
+      meetingId,
+      targetId,
+      participantId,
+      reason,
+      { ban }
+    );
+
+    if (!removed) {
+      sendError(socket, message.requestId, 'Participant not found');
+      return;
+    }
+
+    await sendAck(socket, message, { participantId: targetId });
+  } catch (error) {
+    console.error('Error handling moderation.remove:', error);
+    sendError(socket, message.requestId, 'Failed to remove participant');
+  }
+};
+
+export const handleModerationMuteAll = async (
+  socket: SocketWithContext,
+  message: ModerationMuteAllMessage
+) => {
+  try {
+    const { meetingId, participantId } = socket.data;
+
+    if (!meetingId || !participantId) {
+      sendError(socket, message.requestId, 'Not in a room');
+      return;
+    }
+
+    const { exclude = [], lockMic } = message.payload ?? {};
+    const skipped = new Set([participantId, ...exclude]);
+
+    // Lock first so nobody can unmute between being muted and the lock landing
+    if (lockMic) {
+      await setMicLock(meetingId, true, participantId);
+    }
+
+    const roster = await roomRoster.list(meetingId);
+    const muted: string[] = [];
+    for (const entry of roster) {
+      if (
+        skipped.has(entry.participantId) ||
+        entry.role === 'host' ||
+        entry.mediaState.mic === 'off'
+      ) {
+        continue;
       }
 
-      const mediaChangedMessage = {
-        type: 'media.changed',
-        payload: {
-          participantId: targetId,
-          patch: { mic: 'off' },
-        },
-      };
+      if (
+        await muteParticipant(meetingId, entry.participantId, participantId)
+      ) {
+        muted.push(entry.participantId);
+      }
+    }
 
-      wsState.broadcastToRoom(meetingId, mediaChangedMessage);
-      await publishToMeeting(meetingId, mediaChangedMessage);
+    await sendAck(socket, message, { participantIds: muted });
+  } catch (error) {
+    console.error('Error handling moderation.muteAll:', error);
+    sendError(socket, message.requestId, 'Failed to mute participants');
+  }
+};
+
+export const handleModerationLockMic = async (
+  socket: SocketWithContext,
+  message: ModerationLockMicMessage
+) => {
+  try {
+    const { meetingId, participantId } = socket.data;
+
+    if (!meetingId || !participantId) {
+      sendError(socket, message.requestId, 'Not in a room');
+      return;
     }
+
+    const controls = await setMicLock(
+      meetingId,
+      message.payload!.locked,
+      participantId
+    );
+
+    await sendAck(socket, message, controls);
   } catch (error) {
-    console.error('Error handling moderation.mute:', error);
+    console.error('Error handling moderation.lockMic:', error);
+    sendError(socket, message.requestId, 'Failed to update microphone lock');
   }
 };
 
-export const handleModerationRemove = async (
+export const handleModerationDisableCam = async (
   socket: SocketWithContext,
-  message: ModerationRemoveMessage
+  message: ModerationDisableCamMessage
 ) => {
   try {
-    const { meetingId, participantId, role } = socket.data;
+    const { meetingId, participantId } = socket.data;
 
     if (!meetingId || !participantId) {
+      sendError(socket, message.requestId, 'Not in a room');
       return;
     }
 
-    if (role !== 'host' && role !== 'cohost') {
-      const response: WSResponse = {
-        type: 'error',
-        requestId: message.requestId,
-        error: 'Insufficient permissions',
-      };
-      socket.send(JSON.stringify(response));
+    const targetId = message.payload!.participantId;
+    if (await isHost(meetingId, targetId)) {
+      sendError(socket, message.requestId, 'The host cannot be moderated');
+      return;
+    }
+
+    const disabled = await forceMediaOff(
+      meetingId,
+      targetId,
+      participantId,
+      'cam'
+    );
+
+    if (!disabled) {
+      sendError(socket, message.requestId, 'Participant not found');
+      return;
+    }
+
+    await sendAck(socket, message, { participantId: targetId });
+  } catch (error) {
+    console.error('Error handling moderation.disableCam:', error);
+    sendError(socket, message.requestId, 'Failed to disable camera');
+  }
+};
+
+export const handleModerationStopScreen = async (
+  socket: SocketWithContext,
+  message: ModerationStopScreenMessage
+) => {
+  try {
+    const { meetingId, participantId } = socket.data;
+
+    if (!meetingId || !participantId) {
+      sendError(socket, message.requestId, 'Not in a room');
       return;
     }
 
     const targetId = message.payload!.participantId;
-    const targetSocket = wsState.getSocket(meetingId, targetId);
+    if (await isHost(meetingId, targetId)) {
+      sendError(socket, message.requestId, 'The host cannot be moderated');
+      return;
+    }
 
-    if (targetSocket) {
-      const kickedMessage: WSResponse = {
-        type: 'room.kicked',
-        payload: {
-          by: participantId,
-          reason: 'Removed by moderator',
-        },
-      };
-      targetSocket.send(JSON.stringify(kickedMessage));
+    const stopped = await forceMediaOff(
+      meetingId,
+      targetId,
+      participantId,
+      'screen'
+    );
 
-      wsState.removeFromRoom(meetingId, targetId);
+    if (!stopped) {
+      sendError(socket, message.requestId, 'Participant not found');
+      return;
+    }
 
-      const participantLeftMessage = {
-        type: 'participant.left',
-        payload: {
-          participantId: targetId,
-        },
-      };
+    await sendAck(socket, message, { participantId: targetId });
+  } catch (error) {
+    console.error('Error handling moderation.stopScreen:', error);
+    sendError(socket, message.requestId, 'Failed to stop screen share');
+  }
+};
+
+export const handleModerationSetRole = async (
+  socket: SocketWithContext,
+  message: ModerationSetRoleMessage
+) => {
+  try {
+    const { meetingId, participantId } = socket.data;
 
-      wsState.broadcastToRoom(meetingId, participantLeftMessage);
-      await publishToMeeting(meetingId, participantLeftMessage);
+    if (!meetingId || !participantId) {
+      sendError(socket, message.requestId, 'Not in a room');
+      return;
+    }
+
+    const { participantId: targetId, role: newRole } = message.payload!;
+    const target = await roomRoster.get(meetingId, targetId);
+    if (!target) {
+      sendError(socket, message.requestId, 'Participant not found');
+      return;
     }
+
+    // The host only steps down by handing the role to someone else
+    if (target.role === 'host') {
+      sendError(
+        socket,
+        message.requestId,
+        'Use moderation.transferHost to hand over the host role'
+      );
+      return;
+    }
+
+    if (target.role !== newRole || target.customRoleId) {
+      await changeRole(meetingId, targetId, newRole, participantId);
+    }
+
+    await sendAck(socket, message, { participantId: targetId, role: newRole });
   } catch (error) {
-    console.error('Error handling moderation.remove:', error);
+    console.error('Error handling moderation.setRole:', error);
+    sendError(socket, message.requestId, 'Failed to change role');
+  }
+};
+
+// Give a participant one of the meeting's custom roles, or take it away with
+// a null roleId. Their built-in role stays as it is.
+export const handleModerationAssignRole = async (
+  socket: SocketWithContext,
+  message: ModerationAssignRoleMessage
+) => {
+  try {
+    const { meetingId, participantId } = socket.data;
+
+    if (!meetingId || !participantId) {
+      sendError(socket, message.requestId, 'Not in a room');
+      return;
+    }
+
+    const { participantId: targetId, roleId } = message.payload!;
+    const target = await roomRoster.get(meetingId, targetId);
+    if (!target) {
+      sendError(socket, message.requestId, 'Participant not found');
+      return;
+    }
+
+    if (target.role === 'host') {
+      sendError(
+        socket,
+        message.requestId,
+        'The host always keeps every permission'
+      );
+      return;
+    }
+
+    if (roleId) {
+      const roles = await meetingRolesService.findByMeeting(meetingId);
+      if (!roles.some(role => role.id === roleId)) {
+        sendError(socket, message.requestId, 'Role not found');
+        return;
+      }
+    }
+
+    if ((target.customRoleId ?? null) !== roleId) {
+      await changeRole(meetingId, targetId, target.role, participantId, roleId);
+    }
+
+    await sendAck(socket, message, { participantId: targetId, roleId });
+  } catch (error) {
+    console.error('Error handling moderation.assignRole:', error);
+    sendError(socket, message.requestId, 'Failed to assign role');
+  }
+};
+
+// The previous host stays on as a cohost
+export const handleModerationTransferHost = async (
+  socket: SocketWithContext,
+  message: ModerationTransferHostMessage
+) => {
+  try {
+    const { meetingId, participantId } = socket.data;
+
+    if (!meetingId || !participantId) {
+      sendError(socket, message.requestId, 'Not in a room');
+      return;
+    }
+
+    // Ownership of the meeting is not a grant: only the current host hands
+    // it over, whatever capabilities others have been given
+    const meeting = await meetingsService.findById(meetingId);
+    if (!socket.data.userId || meeting.hostId !== socket.data.userId) {
+      sendError(
+        socket,
+        message.requestId,
+        'Only the host can transfer the host role'
+      );
+      return;
+    }
+
+    const targetId = message.payload!.participantId;
+    const target = await roomRoster.get(meetingId, targetId);
+    const participant = target
+      ? await participantsService.findById(targetId)
+      : undefined;
+    if (!participant) {
+      sendError(socket, message.requestId, 'Participant not found');
+      return;
+    }
+
+    // meetings.hostId references a user, so guests without an account cannot
+    // own the meeting
+    if (!participant.userId) {
+      sendError(
+        socket,
+        message.requestId,
+        'Only signed-in participants can become host'
+      );
+      return;
+    }
+
+    if (meeting.hostId === participant.userId) {
+      sendError(socket, message.requestId, 'Participant is already the host');
+      return;
+    }
+
+    await meetingsService.transferHost(meetingId, participant.userId);
+    await changeRole(meetingId, targetId, 'host', participantId);
+    await changeRole(meetingId, participantId, 'cohost', participantId);
+
+    await sendAck(socket, message, { participantId: targetId });
+  } catch (error) {
+    console.error('Error handling moderation.transferHost:', error);
+    sendError(socket, message.requestId, 'Failed to transfer host');
+  }
+};
+
+export const handleModerationLock = async (
+  socket: SocketWithContext,
+  message: ModerationLockMessage
+) => {
+  try {
+    const { meetingId, participantId } = socket.data;
+
+    if (!meetingId || !participantId) {
+      sendError(socket, message.requestId, 'Not in a room');
+      return;
+    }
+
+    await setMeetingLock(meetingId, true, participantId);
+
+    await sendAck(socket, message, { locked: true });
+  } catch (error) {
+    console.error('Error handling moderation.lock:', error);
+    sendError(socket, message.requestId, 'Failed to lock meeting');
+  }
+};
+
+export const handleModerationUnlock = async (
+  socket: SocketWithContext,
+  message: ModerationUnlockMessage
+) => {
+  try {
+    const { meetingId, participantId } = socket.data;
+
+    if (!meetingId || !participantId) {
+      sendError(socket, message.requestId, 'Not in a room');
+      return;
+    }
+
+    await setMeetingLock(meetingId, false, participantId);
+
+    await sendAck(socket, message, { locked: false });
+  } catch (error) {
+    console.error('Error handling moderation.unlock:', error);
+    sendError(socket, message.requestId, 'Failed to unlock meeting');
+  }
+};
+
+export const handleModerationUpdateSettings = async (
+  socket: SocketWithContext,
+  message: ModerationUpdateSettingsMessage
+) => {
+  try {
+    const { meetingId, participantId } = socket.data;
+
+    if (!meetingId || !participantId) {
+      sendError(socket, message.requestId, 'Not in a room');
+      return;
+    }
+
+    const patch = message.payload!;
+    const settings = await meetingsService.updateSettings(meetingId, patch);
+    await applySettings(meetingId, settings, patch, participantId);
+
+    await sendAck(socket, message, { settings });
+  } catch (error) {
+    console.error('Error handling moderation.updateSettings:', error);
+    sendError(socket, message.requestId, 'Failed to update settings');
   }
 };
@@ -4,9 +4,12 @@ import type {
   HandLowerMessage,
   ReactionSendMessage,
 } from '../types';
-import type { WSResponse } from '../../common/types';
 import { wsState } from '../state';
+import { roomRoster } from '../roster';
 import { publishToMeeting } from '../redis';
+import { sendAck, sendError } from '../reply';
+import { meetingsService } from '../../meetings/service';
+import { can } from '../../common/permissions';
 
 export const handleHandRaise = async (
   socket: SocketWithContext,
@@ -16,10 +19,12 @@ export const handleHandRaise = async (
     const { meetingId, participantId } = socket.data;
 
     if (!meetingId || !participantId) {
+      sendError(socket, message.requestId, 'Not in a room');
       return;
     }
 
     socket.data.handRaised = true;
+    await roomRoster.update(meetingId, participantId, { handRaised: true });
 
     const handChangedMessage = {
       type: 'hand.changed',
@@ -31,8 +36,11 @@ export const handleHandRaise = async (
 
     wsState.broadcastToRoom(meetingId, handChangedMessage);
     await publishToMeeting(meetingId, handChangedMessage);
+
+    await sendAck(socket, message);
   } catch (error) {
     console.error('Error handling hand.raise:', error);
+    sendError(socket, message.requestId, 'Failed to raise hand');
   }
 };
 
@@ -44,10 +52,12 @@ export const handleHandLower = async (
     const { meetingId, participantId } = socket.data;
 
     if (!meetingId || !participantId) {
+      sendError(socket, message.requestId, 'Not in a room');
       return;
     }
 
     socket.data.handRaised = false;
+    await roomRoster.update(meetingId, participantId, { handRaised: false });
 
     const handChangedMessage = {
       type: 'hand.changed',
@@ -59,8 +69,11 @@ export const handleHandLower = async (
 
     wsState.broadcastToRoom(meetingId, handChangedMessage);
     await publishToMeeting(meetingId, handChangedMessage);
+
+    await sendAck(socket, message);
   } catch (error) {
     console.error('Error handling hand.lower:', error);
+    sendError(socket, message.requestId, 'Failed to lower hand');
   }
 };
 
@@ -69,9 +82,19 @@ export const handleReactionSend = async (
   message: ReactionSendMessage
 ) => {
   try {
-    const { meetingId, participantId } = socket.data;
+    const { meetingId, participantId, perms } = socket.data;
 
     if (!meetingId || !participantId) {
+      sendError(socket, message.requestId, 'Not in a room');
+      return;
+    }
+
+    // Hosts and cohosts can still react when reactions are turned off
+    if (
+      !can(perms, 'moderate') &&
+      !(await meetingsService.getSettings(meetingId)).reactionsEnabled
+    ) {
+      sendError(socket, message.requestId, 'Reactions are disabled');
       return;
     }
 
@@ -86,7 +109,10 @@ export const handleReactionSend = async (
 
     wsState.broadcastToRoom(meetingId, reactionMessage);
     await publishToMeeting(meetingId, reactionMessage);
+
+    await sendAck(socket, message);
   } catch (error) {
     console.error('Error handling reaction.send:', error);
+    sendError(socket, message.requestId, 'Failed to send reaction');
   }
 };
@@ -0,0 +1,315 @@
+import type {
+  SocketWithContext,
+  ModerationRequestUnmuteMessage,
+  ModerationAnswerScreenMessage,
+  MediaAnswerUnmuteMessage,
+  MediaRequestScreenMessage,
+} from '../types';
+import { wsState } from '../state';
+import { roomRoster } from '../roster';
+import { roomControls } from '../controls';
+import {
+  mediaRequests,
+  type MediaRequest,
+  type MediaRequestKind,
+} from '../requests';
+import { publishToMeeting } from '../redis';
+import { sendAck, sendError } from '../reply';
+import { grantCapability } from './moderation';
+import { can } from '../../common/permissions';
+import { meetingsService } from '../../meetings/service';
+import { env } from '../../env';
+
+type RequestOutcome = 'accepted' | 'declined' | 'expired' | 'cancelled';
+
+// `${kind}:${participantId}` -> expiry of a request opened on this node
+const requestTimeouts = new Map<string, ReturnType<typeof setTimeout>>();
+
+const timeoutKey = (kind: MediaRequestKind, participantId: string) =>
+  `${kind}:${participantId}`;
+
+const broadcast = async (
+  meetingId: string,
+  message: { type: string; payload: unknown }
+) => {
+  wsState.broadcastToRoom(meetingId, message);
+  await publishToMeeting(meetingId, message);
+};
+
+const resolveRequest = async (
+  meetingId: string,
+  request: MediaRequest,
+  outcome: RequestOutcome,
+  by?: string
+) => {
+  const key = timeoutKey(request.kind, request.participantId);
+  clearTimeout(requestTimeouts.get(key));
+  requestTimeouts.delete(key);
+
+  await broadcast(meetingId, {
+    type: 'media.request.resolved',
+    payload: {
+      kind: request.kind,
+      participantId: request.participantId,
+      outcome,
+      by,
+    },
+  });
+};
+
+const expireRequest = async (
+  meetingId: string,
+  kind: MediaRequestKind,
+  participantId: string
+) => {
+  // Answered just before the timeout; the answer wins
+  const request = await mediaRequests.take(meetingId, kind, participantId, {
+    expired: true,
+  });
+  if (!request) return;
+
+  await resolveRequest(meetingId, request, 'expired');
+};
+
+// Returns false if the same request is already pending
+const openRequest = async (
+  meetingId: string,
+  kind: MediaRequestKind,
+  participantId: string,
+  requestedBy: string
+) => {
+  const now = Date.now();
+  const request: MediaRequest = {
+    kind,
+    participantId,
+    requestedBy,
+    requestedAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + env.MEDIA_REQUEST_TIMEOUT_MS).toISOString(),
+  };
+
+  if (!(await mediaRequests.open(meetingId, request))) return false;
+
+  const key = timeoutKey(kind, participantId);
+  requestTimeouts.set(
+    key,
+    setTimeout(() => {
+      requestTimeouts.delete(key);
+      expireRequest(meetingId, kind, participantId).catch(error =>
+        console.error('Error expiring media request:', error)
+      );
+    }, env.MEDIA_REQUEST_TIMEOUT_MS)
+  );
+
+  await broadcast(meetingId, {
+    type: 'media.request.created',
+    payload: request,
+  });
+  return true;
+};
+
+// Drop everything a participant was asked or asking for when they leave
+export const cancelMediaRequests = async (
+  meetingId: string,
+  participantId: string
+) => {
+  for (const kind of ['unmute', 'screen'] as const) {
+    const request = await mediaRequests.take(meetingId, kind, participantId);
+    if (request) {
+      await resolveRequest(meetingId, request, 'cancelled');
+    }
+  }
+};
+
+export const handleModerationRequestUnmute = async (
+  socket: SocketWithContext,
+  message: ModerationRequestUnmuteMessage
+) => {
+  try {
+    const { meetingId, participantId } = socket.data;
+
+    if (!meetingId || !participantId) {
+      sendError(socket, message.requestId, 'Not in a room');
+      return;
+    }
+
+    const targetId = message.payload!.participantId;
+    const target = await roomRoster.get(meetingId, targetId);
+    if (!target) {
+      sendError(socket, message.requestId, 'Participant not found');
+      return;
+    }
+
+    if (target.mediaState.mic === 'on') {
+      sendError(socket, message.requestId, 'Participant is not muted');
+      return;
+    }
+
+    const opened = await openRequest(
+      meetingId,
+      'unmute',
+      targetId,
+      participantId
+    );
+    if (!opened) {
+      sendError(socket, message.requestId, 'Unmute already requested');
+      return;
+    }
+
+    await sendAck(socket, message, { participantId: targetId });
+  } catch (error) {
+    console.error('Error handling moderation.requestUnmute:', error);
+    sendError(socket, message.requestId, 'Failed to request unmute');
+  }
+};
+
+// Accepting turns the mic on, under the same rules as media.update; a
+// refused accept leaves the request pending so it can still be declined.
+export const handleMediaAnswerUnmute = async (
+  socket: SocketWithContext,
+  message: MediaAnswerUnmuteMessage
+) => {
+  try {
+    const { meetingId, participantId, perms } = socket.data;
+
+    if (!meetingId || !participantId) {
+      sendError(socket, message.requestId, 'Not in a room');
+      return;
+    }
+
+    if (message.payload!.accept && !can(perms, 'unmute')) {
+      sendError(socket, message.requestId, 'You are not allowed to unmute');
+      return;
+    }
+
+    if (
+      message.payload!.accept &&
+      !can(perms, 'moderate') &&
+      (await roomControls.get(meetingId)).micLocked
+    ) {
+      sendError(socket, message.requestId, 'Microphone is locked by the host');
+      return;
+    }
+
+    const request = await mediaRequests.take(
+      meetingId,
+      'unmute',
+      participantId
+    );
+    if (!request) {
+      sendError(socket, message.requestId, 'No pending unmute request');
+      return;
+    }
+
+    const { accept } = message.payload!;
+    await resolveRequest(
+      meetingId,
+      request,
+      accept ? 'accepted' : 'declined',
+      participantId
+    );
+
+    if (accept) {
+      const entry = await roomRoster.update(meetingId, participantId, {
+        mediaState: { mic: 'on' },
+      });
+      if (entry) {
+        socket.data.mediaState = entry.mediaState;
+      }
+
+      const mediaChangedMessage = {
+        type: 'media.changed',
+        payload: {
+          participantId,
+          patch: { mic: 'on' },
+        },
+      };
+
+      wsState.broadcastToRoom(meetingId, mediaChangedMessage, participantId);
+      await publishToMeeting(meetingId, mediaChangedMessage);
+    }
+
+    await sendAck(socket, message, { mediaState: socket.data.mediaState });
+  } catch (error) {
+    console.error('Error handling media.answerUnmute:', error);
+    sendError(socket, message.requestId, 'Failed to answer unmute request');
+  }
+};
+
+export const handleMediaRequestScreen = async (
+  socket: SocketWithContext,
+  message: MediaRequestScreenMessage
+) => {
+  try {
+    const { meetingId, participantId } = socket.data;
+
+    if (!meetingId || !participantId) {
+      sendError(socket, message.requestId, 'Not in a room');
+      return;
+    }
+
+    // Nobody but hosts and cohosts can be allowed to present
+    const settings = await meetingsService.getSettings(meetingId);
+    if (settings.screenShare === 'hosts') {
+      sendError(
+        socket,
+        message.requestId,
+        'Screen sharing is limited to hosts'
+      );
+      return;
+    }
+
+    const opened = await openRequest(
+      meetingId,
+      'screen',
+      participantId,
+      participantId
+    );
+    if (!opened) {
+      sendError(socket, message.requestId, 'Screen share already requested');
+      return;
+    }
+
+    await sendAck(socket, message);
+  } catch (error) {
+    console.error('Error handling media.requestScreen:', error);
+    sendError(socket, message.requestId, 'Failed to request screen share');
+  }
+};
+
+export const handleModerationAnswerScreen = async (
+  socket: SocketWithContext,
+  message: ModerationAnswerScreenMessage
+) => {
+  try {
+    const { meetingId, participantId } = socket.data;
+
+    if (!meetingId || !participantId) {
+      sendError(socket, message.requestId, 'Not in a room');
+      return;
+    }
+
+    const { participantId: targetId, accept } = message.payload!;
+    const request = await mediaRequests.take(meetingId, 'screen', targetId);
+    if (!request) {
+      sendError(socket, message.requestId, 'No pending screen share request');
+      return;
+    }
+
+    await resolveRequest(
+      meetingId,
+      request,
+      accept ? 'accepted' : 'declined',
+      participantId
+    );
+
+    // Presenting was the point of asking, whatever the requester's role
+    if (accept) {
+      await grantCapability(meetingId, targetId, 'shareScreen');
+    }
+
+    await sendAck(socket, message, { participantId: targetId });
+  } catch (error) {
+    console.error('Error handling moderation.answerScreen:', error);
+    sendError(socket, message.requestId, 'Failed to answer screen request');
+  }
+};
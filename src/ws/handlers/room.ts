@@ -2,13 +2,277 @@ import type {
   SocketWithContext,
   RoomJoinMessage,
   RoomLeaveMessage,
+  RoomResumeMessage,
+  RoomEndMessage,
+  LobbyDecision,
 } from '../types';
 import type { WSResponse } from '../../common/types';
 import { participantsService } from '../../participants/service';
+import { meetingsService } from '../../meetings/service';
+import {
+  resolveMeetingSettings,
+  isAutoAdmitted,
+} from '../../meetings/settings';
+import { chatService } from '../../chat/service';
+import { bansService } from '../../bans/service';
+import { errors } from '../../common/errors';
+import { meetingRolesService } from '../../roles/service';
+import { can, type Capability } from '../../common/permissions';
 import { wsState } from '../state';
-import { publishToMeeting } from '../redis';
+import { roomRoster, withSessionGrants, type RosterEntry } from '../roster';
+import { resumeStore } from '../resume';
+import { typingTracker } from '../typing';
+import { roomControls } from '../controls';
+import { mediaRequests } from '../requests';
+import { lobbyStore } from '../lobby';
+import { cancelMediaRequests } from './requests';
+import {
+  enterLobby,
+  leaveLobby,
+  listLobby,
+  releaseWaiting,
+  turnAway,
+} from './lobby';
+import { publishToMeeting, publishToNode, instanceId } from '../redis';
+import { sendAck, sendError } from '../reply';
+import { env } from '../../env';
 import { ulid } from 'ulid';
 
+// participantId -> pending teardown for a dropped connection
+const pendingLeaves = new Map<string, ReturnType<typeof setTimeout>>();
+
+// Get all participants in room, across every node. Participants who may not
+// see the roster only know about themselves.
+const listPeers = async (
+  meetingId: string,
+  selfId: string,
+  perms: Capability[] | undefined
+) => {
+  if (!can(perms, 'seeRoster')) return [];
+
+  const roster = await roomRoster.list(meetingId);
+  return roster
+    .filter(entry => entry.participantId !== selfId)
+    .map(entry => ({
+      participantId: entry.participantId,
+      displayName: entry.displayName,
+      role: entry.role,
+      customRoleId: entry.customRoleId,
+      mediaState: entry.mediaState,
+      handRaised: entry.handRaised,
+    }));
+};
+
+type JoiningParticipant = NonNullable<
+  Awaited<ReturnType<typeof participantsService.findById>>
+>;
+
+// Guests wait in the lobby when the meeting has a waiting room, unless the
+// auto-admit policy lets them in
+const mustWaitInLobby = async (participant: JoiningParticipant) => {
+  if (participant.role !== 'guest') return false;
+
+  const settings = resolveMeetingSettings(participant.meeting.settings);
+  if (!settings.waitingRoom) return false;
+
+  const invited = participant.userId
+    ? await meetingsService.isInvited(
+        participant.meeting.id,
+        participant.userId
+      )
+    : false;
+
+  return !isAutoAdmitted(settings, {
+    email: participant.user?.email,
+    invited,
+  });
+};
+
+// Whether the meeting's participant limit lets the participant in. The host
+// always gets in.
+const hasRoomFor = async (participant: JoiningParticipant) => {
+  const { maxParticipants } = resolveMeetingSettings(
+    participant.meeting.settings
+  );
+  if (maxParticipants === null || participant.role === 'host') return true;
+
+  return roomRoster.hasRoomFor(
+    participant.meeting.id,
+    participant.id,
+    maxParticipants
+  );
+};
+
+// Checked on every way into the room, as a ban may be issued over REST while
+// the participant is connected or detached. As in canUserJoin, the host
+// cannot be banned from their own meeting.
+const isBanned = async (participant: JoiningParticipant) => {
+  if (participant.userId && participant.userId === participant.meeting.hostId) {
+    return false;
+  }
+
+  const ban = await bansService.findMatch(participant.meeting.id, {
+    participantId: participant.id,
+    userId: participant.userId,
+    fingerprint: participant.fingerprint,
+  });
+  return Boolean(ban);
+};
+
+// Put an authenticated socket in the room and announce it. `previous` is the
+// roster entry of a participant reconnecting within the grace period.
+const enterRoom = async (
+  socket: SocketWithContext,
+  participant: JoiningParticipant,
+  previous: RosterEntry | null,
+  requestId?: string
+) => {
+  const meetingId = participant.meeting.id;
+  const displayName = socket.data.displayName || 'Guest';
+  const mediaState = socket.data.mediaState!;
+
+  socket.data.participantId = participant.id;
+  socket.data.meetingId = meetingId;
+  socket.data.handRaised = previous?.handRaised ?? false;
+  socket.data.perms = withSessionGrants(socket.data.perms ?? [], previous);
+
+  // Add to room state
+  wsState.addToRoom(meetingId, participant.id, socket);
+  await roomRoster.upsert(meetingId, {
+    participantId: participant.id,
+    displayName,
+    role: participant.role,
+    customRoleId: participant.customRoleId,
+    perms: socket.data.perms,
+    grants: previous?.grants,
+    mediaState,
+    handRaised: socket.data.handRaised,
+  });
+
+  const peers = await listPeers(meetingId, participant.id, socket.data.perms);
+  const resumeToken = await resumeStore.issue(meetingId, participant.id);
+  const viewer = {
+    participantId: participant.id,
+    moderator: can(socket.data.perms, 'moderate'),
+  };
+  const history = await chatService.findRecent(
+    meetingId,
+    viewer,
+    env.CHAT_HISTORY_ON_JOIN
+  );
+  const unread = await chatService.countUnread(
+    meetingId,
+    viewer,
+    participant.lastReadMessageId
+  );
+
+  // Send joined confirmation to client
+  const joinedResponse: WSResponse = {
+    type: 'room.joined',
+    requestId,
+    payload: {
+      meeting: participant.meeting,
+      selfParticipant: {
+        participantId: participant.id,
+        displayName,
+        role: participant.role,
+        customRoleId: participant.customRoleId,
+        perms: socket.data.perms,
+        mediaState,
+      },
+      peers,
+      settings: resolveMeetingSettings(participant.meeting.settings),
+      roles: await meetingRolesService.findByMeeting(meetingId),
+      resumeToken,
+      chat: history.map(chatMessage => chatService.serialize(chatMessage)),
+      chatRead: {
+        lastReadMessageId: participant.lastReadMessageId,
+        unread,
+      },
+      lobby: can(socket.data.perms, 'admit')
+        ? await listLobby(meetingId)
+        : undefined,
+      controls: await roomControls.get(meetingId),
+      requests: await mediaRequests.list(meetingId),
+    },
+  };
+  socket.send(JSON.stringify(joinedResponse));
+
+  if (previous) {
+    const mediaChangedMessage = {
+      type: 'media.changed',
+      payload: {
+        participantId: participant.id,
+        patch: mediaState,
+      },
+    };
+
+    wsState.broadcastToRoom(meetingId, mediaChangedMessage, participant.id);
+    await publishToMeeting(meetingId, mediaChangedMessage);
+    return;
+  }
+
+  // Broadcast to others in room
+  const participantJoinedMessage = {
+    type: 'participant.joined',
+    payload: {
+      participantId: participant.id,
+      displayName,
+      role: participant.role,
+      customRoleId: participant.customRoleId,
+      mediaState,
+      handRaised: false,
+    },
+  };
+
+  wsState.broadcastToRoom(meetingId, participantJoinedMessage, participant.id);
+  await publishToMeeting(meetingId, participantJoinedMessage);
+};
+
+// Runs on the node holding the waiting socket once a host has decided
+const completeLobbyDecision = async (decision: LobbyDecision) => {
+  const { meetingId, participantId } = decision;
+  const socket = wsState.getLobbySocket(participantId);
+  if (!socket || socket.data.lobby?.meetingId !== meetingId) return;
+
+  releaseWaiting(socket);
+
+  if (decision.decision === 'reject') {
+    await turnAway(socket, participantId, 'rejected');
+    return;
+  }
+
+  if (decision.decision === 'end') {
+    await turnAway(socket, participantId, 'ended');
+    return;
+  }
+
+  const participant = await participantsService.findById(participantId);
+  if (!participant) return;
+
+  // The room may have filled up while the guest was waiting
+  if (!(await hasRoomFor(participant))) {
+    await turnAway(socket, participantId, 'full');
+    return;
+  }
+
+  const admittedMessage: WSResponse = {
+    type: 'lobby.result',
+    payload: {
+      admitted: true,
+    },
+  };
+  socket.send(JSON.stringify(admittedMessage));
+
+  await enterRoom(socket, participant, null);
+};
+
+wsState.onLobbyDecision(decision => {
+  completeLobbyDecision(decision).catch(error =>
+    console.error('Error completing lobby decision:', error)
+  );
+});
+
 export const handleRoomJoin = async (
   socket: SocketWithContext,
   message: RoomJoinMessage,
@@ -17,6 +281,12 @@ export const handleRoomJoin = async (
   try {
     const { roomToken, device } = message.payload!;
 
+    // The lobby already holds this socket and its timeout; room.leave first
+    if (socket.data.lobby) {
+      sendError(socket, message.requestId, 'Already waiting in the lobby');
+      return;
+    }
+
     // Verify room token
     const tokenPayload = await verifyRoomToken(roomToken);
     if (!tokenPayload) {
@@ -41,70 +311,113 @@ export const handleRoomJoin = async (
       return;
     }
 
+    // Room tokens issued before the meeting ended are still unexpired
+    if (participant.meeting.endedAt) {
+      sendError(
+        socket,
+        message.requestId,
+        'This meeting has already ended',
+        errors.room.alreadyEnded().toJSON()
+      );
+      return;
+    }
+
+    if (await isBanned(participant)) {
+      sendError(
+        socket,
+        message.requestId,
+        'You have been banned from this meeting',
+        errors.meeting.banned().toJSON()
+      );
+      return;
+    }
+
     // Update socket context
     socket.data.authenticated = true;
-    socket.data.participantId = participant.id;
     socket.data.userId = participant.userId || undefined;
-    socket.data.meetingId = participant.meeting.id;
     socket.data.role = participant.role;
+    // The role, the meeting's permission settings or a custom role's
+    // capabilities may have changed since the token was issued, so the grants
+    // are resolved again
+    socket.data.perms = await meetingsService.resolveParticipantCapabilities(
+      participant.meeting.id,
+      participant
+    );
     socket.data.displayName = participant.user?.displayName || 'Guest';
+
+    // Entry settings do not apply to moderators
+    const settings = resolveMeetingSettings(participant.meeting.settings);
+    const moderator = can(socket.data.perms, 'moderate');
+    const micAllowed =
+      can(socket.data.perms, 'unmute') && (moderator || !settings.muteOnEntry);
+    const camAllowed = moderator || !settings.camerasOffOnEntry;
     socket.data.mediaState = {
-      mic: device.mic ? 'on' : 'off',
-      cam: device.cam ? 'on' : 'off',
+      mic: device.mic && micAllowed ? 'on' : 'off',
+      cam: device.cam && camAllowed ? 'on' : 'off',
       screen: 'off',
     };
-    socket.data.handRaised = false;
-
-    // Add to room state
-    wsState.addToRoom(participant.meeting.id, participant.id, socket);
-
-    // Get all participants in room
-    const peers = wsState
-      .getRoomSockets(participant.meeting.id)
-      .filter(s => s.data.participantId !== participant.id)
-      .map(s => ({
-        participantId: s.data.participantId,
-        displayName: s.data.displayName,
-        role: s.data.role,
-        mediaState: s.data.mediaState,
-        handRaised: s.data.handRaised,
-      }));
-
-    // Send joined confirmation to client
-    const joinedResponse: WSResponse = {
-      type: 'room.joined',
-      requestId: message.requestId,
-      payload: {
-        meeting: participant.meeting,
-        selfParticipant: {
-          participantId: participant.id,
-          displayName: socket.data.displayName,
-          role: participant.role,
-          mediaState: socket.data.mediaState,
-        },
-        peers,
-      },
-    };
-    socket.send(JSON.stringify(joinedResponse));
 
-    // Broadcast to others in room
-    const participantJoinedMessage = {
-      type: 'participant.joined',
-      payload: {
-        participantId: participant.id,
-        displayName: socket.data.displayName,
-        role: participant.role,
-        mediaState: socket.data.mediaState,
-        handRaised: false,
-      },
-    };
-
-    wsState.broadcastToRoom(
+    // A roster entry that is still present means the participant is
+    // reconnecting within the grace period, so peers already know about them
+    const pendingLeave = pendingLeaves.get(participant.id);
+    if (pendingLeave) {
+      clearTimeout(pendingLeave);
+      pendingLeaves.delete(participant.id);
+    }
+    const previous = await roomRoster.get(
       participant.meeting.id,
-      participantJoinedMessage,
       participant.id
     );
-    await publishToMeeting(participant.meeting.id, participantJoinedMessage);
+
+    // A locked meeting keeps out everyone who is not already inside, except
+    // the host and cohosts
+    if (
+      !previous &&
+      participant.meeting.lockedAt &&
+      participant.role !== 'host' &&
+      participant.role !== 'cohost'
+    ) {
+      sendError(
+        socket,
+        message.requestId,
+        'This meeting is locked',
+        errors.room.locked().toJSON()
+      );
+      return;
+    }
+
+    // Guests and the participant limit only concern newcomers as well
+    if (!previous && !participant.userId && !settings.allowGuests) {
+      sendError(
+        socket,
+        message.requestId,
+        'Guests cannot join this meeting',
+        errors.meeting.guestsNotAllowed().toJSON()
+      );
+      return;
+    }
+
+    if (!previous && !(await hasRoomFor(participant))) {
+      sendError(
+        socket,
+        message.requestId,
+        'This meeting is full',
+        errors.room.full().toJSON()
+      );
+      return;
+    }
+
+    if (!previous && (await mustWaitInLobby(participant))) {
+      await enterLobby(
+        socket,
+        participant.meeting.id,
+        participant.id,
+        message.requestId
+      );
+      return;
+    }
+
+    await enterRoom(socket, participant, previous, message.requestId);
   } catch (error) {
     console.error('Error handling room.join:', error);
     const response: WSResponse = {
@@ -116,33 +429,125 @@ export const handleRoomJoin = async (
   }
 };
 
-export const handleRoomLeave = async (
+// Shared teardown for an explicit room.leave, a dropped connection and a
+// participant removed by a moderator
+export const leaveRoom = async (meetingId: string, participantId: string) => {
+  const entry = await roomRoster.get(meetingId, participantId);
+
+  // Update participant left time
+  await participantsService.updateLeftAt(participantId);
+
+  // Remove from room state
+  wsState.removeFromRoom(meetingId, participantId);
+  await roomRoster.remove(meetingId, participantId);
+  await resumeStore.revoke(participantId);
+  await resumeStore.clearBuffer(participantId);
+  await typingTracker.stop(meetingId, participantId);
+  await cancelMediaRequests(meetingId, participantId);
+
+  // Broadcast to others
+  if (entry?.handRaised) {
+    const handChangedMessage = {
+      type: 'hand.changed',
+      payload: {
+        participantId,
+        raised: false,
+      },
+    };
+
+    wsState.broadcastToRoom(meetingId, handChangedMessage);
+    await publishToMeeting(meetingId, handChangedMessage);
+  }
+
+  const participantLeftMessage = {
+    type: 'participant.left',
+    payload: {
+      participantId,
+    },
+  };
+
+  wsState.broadcastToRoom(meetingId, participantLeftMessage);
+  await publishToMeeting(meetingId, participantLeftMessage);
+};
+
+// Called once meetingsService.end has stamped the meeting: waiting guests are
+// turned away and every socket in the room, on every node, receives
+// room.ended and is closed
+export const closeEndedMeeting = async (
+  meetingId: string,
+  endedAt: Date | null,
+  by?: string
+) => {
+  for (const waiting of await lobbyStore.list(meetingId)) {
+    const entry = await lobbyStore.take(meetingId, waiting.participantId);
+    if (!entry) continue;
+
+    await wsState.sendLobbyDecision(entry.nodeId, {
+      meetingId,
+      participantId: entry.participantId,
+      decision: 'end',
+    });
+  }
+
+  const roster = await roomRoster.list(meetingId);
+  const roomEndedMessage = {
+    type: 'room.ended',
+    payload: {
+      endedAt,
+      by,
+    },
+  };
+
+  wsState.closeRoom(meetingId, roomEndedMessage);
+  await publishToMeeting(meetingId, roomEndedMessage);
+
+  // Nobody can resume into an ended meeting
+  for (const entry of roster) {
+    await roomRoster.remove(meetingId, entry.participantId);
+    await resumeStore.revoke(entry.participantId);
+    await resumeStore.clearBuffer(entry.participantId);
+  }
+};
+
+export const handleRoomEnd = async (
   socket: SocketWithContext,
-  message: RoomLeaveMessage
+  message: RoomEndMessage
 ) => {
   try {
-    const { participantId, meetingId } = socket.data;
+    const { meetingId, participantId } = socket.data;
 
-    if (!participantId || !meetingId) {
+    if (!meetingId || !participantId) {
+      sendError(socket, message.requestId, 'Not in a room');
       return;
     }
 
-    // Update participant left time
-    await participantsService.updateLeftAt(participantId);
+    const meeting = await meetingsService.end(meetingId);
 
-    // Remove from room state
-    wsState.removeFromRoom(meetingId, participantId);
+    // The socket is closed along with the rest of the room, so acknowledge
+    // before it goes
+    await sendAck(socket, message);
+    await closeEndedMeeting(meetingId, meeting.endedAt, participantId);
+  } catch (error) {
+    console.error('Error handling room.end:', error);
+    sendError(socket, message.requestId, 'Failed to end meeting');
+  }
+};
 
-    // Broadcast to others
-    const participantLeftMessage = {
-      type: 'participant.left',
-      payload: {
-        participantId,
-      },
-    };
+export const handleRoomLeave = async (
+  socket: SocketWithContext,
+  message: RoomLeaveMessage
+) => {
+  try {
+    const { participantId, meetingId } = socket.data;
 
-    wsState.broadcastToRoom(meetingId, participantLeftMessage);
-    await publishToMeeting(meetingId, participantLeftMessage);
+    if (socket.data.lobby) {
+      await leaveLobby(socket);
+    } else if (!participantId || !meetingId) {
+      sendError(socket, message.requestId, 'Not in a room');
+      return;
+    } else {
+      await leaveRoom(meetingId, participantId);
+    }
 
     // Send confirmation
     const response: WSResponse = {
@@ -156,5 +561,174 @@ export const handleRoomLeave = async (
     socket.data.meetingId = undefined;
   } catch (error) {
     console.error('Error handling room.leave:', error);
+    sendError(socket, message.requestId, 'Failed to leave room');
+  }
+};
+
+// Called when a joined socket closes without room.leave. The participant stays
+// in the roster for WS_DISCONNECT_GRACE_MS so a quick reconnect or room.resume
+// does not show up as a leave/join pair for everyone else.
+export const handleRoomDisconnect = (socket: SocketWithContext) => {
+  const { participantId, meetingId } = socket.data;
+
+  // Waiting participants have nothing to resume
+  if (socket.data.lobby) {
+    leaveLobby(socket).catch(err =>
+      console.error('Failed to remove participant from lobby:', err)
+    );
+    return;
+  }
+
+  // Nothing to do if another socket has already taken over the participant
+  if (
+    !participantId ||
+    !meetingId ||
+    wsState.getSocket(meetingId, participantId) !== socket
+  ) {
+    return;
+  }
+
+  wsState.detachFromRoom(meetingId, participantId, socket);
+  resumeStore
+    .clearBuffer(participantId)
+    .catch(err => console.error('Failed to reset resume buffer:', err));
+
+  clearTimeout(pendingLeaves.get(participantId));
+  pendingLeaves.set(
+    participantId,
+    setTimeout(async () => {
+      pendingLeaves.delete(participantId);
+
+      try {
+        // Reconnected to this node
+        if (wsState.getSocket(meetingId, participantId)) return;
+
+        // Already gone, or reconnected to another node
+        const entry = await roomRoster.get(meetingId, participantId);
+        if (!entry || entry.nodeId !== instanceId) {
+          wsState.removeFromRoom(meetingId, participantId);
+          return;
+        }
+
+        await leaveRoom(meetingId, participantId);
+      } catch (error) {
+        console.error('Error handling room disconnect:', error);
+      }
+    }, env.WS_DISCONNECT_GRACE_MS)
+  );
+};
+
+export const handleRoomResume = async (
+  socket: SocketWithContext,
+  message: RoomResumeMessage
+) => {
+  try {
+    const { resumeToken } = message.payload!;
+
+    const session = await resumeStore.get(resumeToken);
+    const entry: RosterEntry | null = session
+      ? await roomRoster.get(session.meetingId, session.participantId)
+      : null;
+    const participant = session
+      ? await participantsService.findById(session.participantId)
+      : undefined;
+
+    if (
+      !session ||
+      !entry ||
+      !participant ||
+      (participant.userId && participant.userId !== socket.data.userId)
+    ) {
+      const response: WSResponse = {
+        type: 'error',
+        requestId: message.requestId,
+        error: 'Session can no longer be resumed',
+      };
+      socket.send(JSON.stringify(response));
+      return;
+    }
+
+    // The lock does not apply, as the participant never left the room
+    if (await isBanned(participant)) {
+      sendError(
+        socket,
+        message.requestId,
+        'You have been banned from this meeting',
+        errors.meeting.banned().toJSON()
+      );
+      return;
+    }
+
+    const { meetingId, participantId } = session;
+
+    const pendingLeave = pendingLeaves.get(participantId);
+    if (pendingLeave) {
+      clearTimeout(pendingLeave);
+      pendingLeaves.delete(participantId);
+    }
+
+    // Stop the previous node from buffering for this participant
+    if (entry.nodeId !== instanceId) {
+      await publishToNode(entry.nodeId, {
+        meetingId,
+        participantId,
+        evict: true,
+      });
+    }
+
+    // Update socket context. Role changes made while the participant had no
+    // socket could not be delivered to it, but they are in the roster.
+    socket.data.participantId = participantId;
+    socket.data.userId = participant.userId || undefined;
+    socket.data.meetingId = meetingId;
+    socket.data.role = entry.role;
+    socket.data.perms = entry.perms;
+    socket.data.displayName = entry.displayName;
+    socket.data.mediaState = entry.mediaState;
+    socket.data.handRaised = entry.handRaised;
+
+    wsState.addToRoom(meetingId, participantId, socket);
+    await roomRoster.update(meetingId, participantId, { nodeId: instanceId });
+
+    const missed = await resumeStore.drain(participantId);
+    const peers = await listPeers(meetingId, participantId, entry.perms);
+    const nextResumeToken = await resumeStore.issue(meetingId, participantId);
+
+    const resumedResponse: WSResponse = {
+      type: 'room.resumed',
+      requestId: message.requestId,
+      payload: {
+        meeting: participant.meeting,
+        selfParticipant: {
+          participantId,
+          displayName: entry.displayName,
+          role: entry.role,
+          customRoleId: entry.customRoleId,
+          perms: entry.perms,
+          mediaState: entry.mediaState,
+        },
+        peers,
+        settings: resolveMeetingSettings(participant.meeting.settings),
+        roles: await meetingRolesService.findByMeeting(meetingId),
+        resumeToken: nextResumeToken,
+        controls: await roomControls.get(meetingId),
+        requests: await mediaRequests.list(meetingId),
+        missed: missed.length,
+      },
+    };
+    socket.send(JSON.stringify(resumedResponse));
+
+    // Replay what happened while the participant was away, in order
+    for (const event of missed) {
+      socket.send(JSON.stringify(event));
+    }
+  } catch (error) {
+    console.error('Error handling room.resume:', error);
+    const response: WSResponse = {
+      type: 'error',
+      requestId: message.requestId,
+      error: 'Failed to resume session',
+    };
+    socket.send(JSON.stringify(response));
   }
 };
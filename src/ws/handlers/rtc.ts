@@ -1,8 +1,9 @@
 import type { SocketWithContext, RTCSignalMessage } from '../types';
 import type { WSResponse } from '../../common/types';
 import { wsState } from '../state';
+import { sendAck, sendError } from '../reply';
 
-export const handleRTCSignal = (
+export const handleRTCSignal = async (
   socket: SocketWithContext,
   message: RTCSignalMessage
 ) => {
@@ -10,32 +11,36 @@ export const handleRTCSignal = (
     const { meetingId, participantId } = socket.data;
 
     if (!meetingId || !participantId) {
-      const response: WSResponse = {
-        type: 'error',
-        requestId: message.requestId,
-        error: 'Not in a room',
-      };
-      socket.send(JSON.stringify(response));
+      sendError(socket, message.requestId, 'Not in a room');
       return;
     }
 
     const { to, type, sdp, candidate } = message.payload!;
 
-    // Forward signal to target peer
-    const targetSocket = wsState.getSocket(meetingId, to);
-    if (targetSocket) {
-      const signalMessage: WSResponse = {
-        type: 'rtc.signal',
-        payload: {
-          from: participantId,
-          type,
-          sdp,
-          candidate,
-        },
-      };
-      targetSocket.send(JSON.stringify(signalMessage));
+    // Forward signal to target peer, which may be connected to another node
+    const signalMessage: WSResponse = {
+      type: 'rtc.signal',
+      payload: {
+        from: participantId,
+        type,
+        sdp,
+        candidate,
+      },
+    };
+    const delivered = await wsState.sendToParticipant(
+      meetingId,
+      to,
+      signalMessage
+    );
+
+    if (!delivered) {
+      sendError(socket, message.requestId, 'Participant not found');
+      return;
     }
+
+    await sendAck(socket, message);
   } catch (error) {
     console.error('Error handling rtc.signal:', error);
+    sendError(socket, message.requestId, 'Failed to deliver signal');
   }
 };
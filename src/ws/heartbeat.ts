@@ -0,0 +1,62 @@
+import { env } from '../env';
+import { wsState } from './state';
+import { leaveRoom } from './handlers/room';
+import { leaveLobby } from './handlers/lobby';
+import type { SocketWithContext } from './types';
+
+// Closes sockets that have not sent anything (including `ping`) for
+// WS_HEARTBEAT_MAX_MISSED heartbeat intervals. Half-open TCP connections never
+// fire `close`, so the sweeper runs the leave path itself.
+export class HeartbeatSweeper {
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.sweep(), env.WS_HEARTBEAT_INTERVAL_MS);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async sweep() {
+    const deadline =
+      Date.now() - env.WS_HEARTBEAT_INTERVAL_MS * env.WS_HEARTBEAT_MAX_MISSED;
+
+    for (const socket of wsState.getConnections()) {
+      if (socket.data.lastSeenAt >= deadline) continue;
+
+      try {
+        await this.reap(socket);
+      } catch (error) {
+        console.error('Error reaping dead socket:', error);
+      }
+    }
+  }
+
+  private async reap(socket: SocketWithContext) {
+    const { meetingId, participantId } = socket.data;
+    wsState.untrack(socket);
+    await leaveLobby(socket);
+
+    // Clear the context first so the close hook does not start a grace period
+    socket.data.participantId = undefined;
+    socket.data.meetingId = undefined;
+
+    if (
+      meetingId &&
+      participantId &&
+      wsState.getSocket(meetingId, participantId) === socket
+    ) {
+      await leaveRoom(meetingId, participantId);
+    }
+
+    socket.close();
+    console.log('Closed unresponsive WebSocket connection');
+  }
+}
+
+export const heartbeatSweeper = new HeartbeatSweeper();
@@ -0,0 +1,77 @@
+import type { SocketWithContext } from './types';
+import { redis } from './redis';
+
+const TTL_SEC = 10 * 60;
+const PENDING = 'pending';
+
+// Deletes the key only while it still holds the pending marker, so an ack
+// stored in the meantime is kept
+const RELEASE_PENDING_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+const key = (ownerId: string, type: string, idempotencyKey: string) =>
+  `idempotency:${ownerId}:${type}:${idempotencyKey}`;
+
+// Keys belong to the user, or to the participant for guests, who have no
+// account. Undefined before a guest has joined a room.
+export const idempotencyOwner = (socket: SocketWithContext) =>
+  socket.data.userId ?? socket.data.participantId;
+
+export type IdempotencyClaim =
+  { claimed: true } | { claimed: false; response: any | null }; // null while still in flight
+
+// Remembers the ack sent for a client-supplied idempotency key, so a retried
+// command is answered again instead of being executed twice
+export class IdempotencyStore {
+  async claim(
+    ownerId: string,
+    type: string,
+    idempotencyKey: string
+  ): Promise<IdempotencyClaim> {
+    const claimed = await redis.set(
+      key(ownerId, type, idempotencyKey),
+      PENDING,
+      'EX',
+      TTL_SEC,
+      'NX'
+    );
+    if (claimed) return { claimed: true };
+
+    const stored = await redis.get(key(ownerId, type, idempotencyKey));
+    return {
+      claimed: false,
+      response: stored && stored !== PENDING ? JSON.parse(stored) : null,
+    };
+  }
+
+  async complete(
+    ownerId: string,
+    type: string,
+    idempotencyKey: string,
+    response: any
+  ) {
+    await redis.set(
+      key(ownerId, type, idempotencyKey),
+      JSON.stringify(response),
+      'EX',
+      TTL_SEC,
+      'XX'
+    );
+  }
+
+  // Drop a claim that never produced an ack so the client can retry
+  async releasePending(ownerId: string, type: string, idempotencyKey: string) {
+    await redis.eval(
+      RELEASE_PENDING_SCRIPT,
+      1,
+      key(ownerId, type, idempotencyKey),
+      PENDING
+    );
+  }
+}
+
+export const idempotencyStore = new IdempotencyStore();
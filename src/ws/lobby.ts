@@ -0,0 +1,59 @@
+import { redis, instanceId } from './redis';
+import { findLiveNodes } from './roster';
+
+export type LobbyEntry = {
+  participantId: string;
+  displayName: string;
+  waitingSince: string; // ISO timestamp
+  nodeId: string;
+};
+
+const LOBBY_TTL_SEC = 24 * 60 * 60;
+
+const lobbyKey = (meetingId: string) => `meeting:${meetingId}:lobby`;
+
+// Cluster-wide queue of participants waiting to be admitted to a meeting.
+// Like the roster, entries belong to the node holding the waiting socket and
+// entries of dead nodes are pruned on read.
+export class LobbyStore {
+  async add(meetingId: string, entry: Omit<LobbyEntry, 'nodeId'>) {
+    const value: LobbyEntry = { ...entry, nodeId: instanceId };
+    await redis
+      .multi()
+      .hset(lobbyKey(meetingId), entry.participantId, JSON.stringify(value))
+      .expire(lobbyKey(meetingId), LOBBY_TTL_SEC)
+      .exec();
+  }
+
+  // Removes and returns an entry. Only one caller gets it, so a participant
+  // cannot be admitted and rejected at the same time.
+  async take(meetingId: string, participantId: string) {
+    const raw = await redis.hget(lobbyKey(meetingId), participantId);
+    if (!raw) return null;
+
+    const removed = await redis.hdel(lobbyKey(meetingId), participantId);
+    if (!removed) return null;
+
+    return JSON.parse(raw) as LobbyEntry;
+  }
+
+  async list(meetingId: string): Promise<LobbyEntry[]> {
+    const raw = await redis.hgetall(lobbyKey(meetingId));
+    const entries = Object.values(raw).map(
+      value => JSON.parse(value) as LobbyEntry
+    );
+    if (entries.length === 0) return [];
+
+    const liveNodes = await findLiveNodes(entries.map(e => e.nodeId));
+    const stale = entries.filter(e => !liveNodes.has(e.nodeId));
+    if (stale.length > 0) {
+      await redis.hdel(lobbyKey(meetingId), ...stale.map(e => e.participantId));
+    }
+
+    return entries
+      .filter(e => liveNodes.has(e.nodeId))
+      .sort((a, b) => a.waitingSince.localeCompare(b.waitingSince));
+  }
+}
+
+export const lobbyStore = new LobbyStore();
@@ -0,0 +1,158 @@
+import { z } from 'zod';
+import { redis } from './redis';
+import { env } from '../env';
+import { muteParticipant, removeParticipant } from './handlers/moderation';
+import type { SocketWithContext } from './types';
+
+const bucketSchema = z.object({
+  capacity: z.number().positive(),
+  refillPerSec: z.number().positive(),
+});
+
+const rateLimitRuleSchema = z.object({
+  participant: bucketSchema.optional(),
+  room: bucketSchema.optional(),
+});
+
+export type TokenBucket = z.infer<typeof bucketSchema>;
+export type RateLimitRule = z.infer<typeof rateLimitRuleSchema>;
+
+// `participant` buckets are per sender, `room` buckets are shared by everyone
+// in the meeting. '*' applies to message types without their own rule.
+export const defaultRateLimits: Record<string, RateLimitRule> = {
+  '*': { participant: { capacity: 30, refillPerSec: 10 } },
+  'chat.send': {
+    participant: { capacity: 5, refillPerSec: 1 },
+    room: { capacity: 30, refillPerSec: 10 },
+  },
+  'chat.react': { participant: { capacity: 10, refillPerSec: 2 } },
+  'chat.unreact': { participant: { capacity: 10, refillPerSec: 2 } },
+  'chat.typing': { participant: { capacity: 5, refillPerSec: 1 } },
+  'reaction.send': {
+    participant: { capacity: 10, refillPerSec: 2 },
+    room: { capacity: 60, refillPerSec: 20 },
+  },
+  'rtc.signal': { participant: { capacity: 200, refillPerSec: 50 } },
+  'media.update': { participant: { capacity: 10, refillPerSec: 2 } },
+  'hand.raise': { participant: { capacity: 5, refillPerSec: 1 } },
+  'hand.lower': { participant: { capacity: 5, refillPerSec: 1 } },
+};
+
+// WS_RATE_LIMITS is a JSON object with the same shape, merged over the
+// defaults. A message type listed there replaces its default rule entirely.
+export const mergeRateLimits = (
+  raw: string | undefined
+): Record<string, RateLimitRule> => {
+  if (!raw) return defaultRateLimits;
+
+  const overrides = z
+    .record(z.string(), rateLimitRuleSchema)
+    .parse(JSON.parse(raw));
+  return { ...defaultRateLimits, ...overrides };
+};
+
+const rateLimits = mergeRateLimits(env.WS_RATE_LIMITS);
+
+// Refills the bucket for the elapsed time, then takes one token.
+// Returns { allowed, retryAfterMs }.
+const TAKE_TOKEN_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local rate = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'ts')
+local tokens = tonumber(state[1]) or capacity
+local ts = tonumber(state[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - ts) / 1000 * rate)
+local allowed = 0
+local retry = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+else
+  retry = math.ceil((1 - tokens) / rate * 1000)
+end
+redis.call('HSET', KEYS[1], 'tokens', tokens, 'ts', now)
+redis.call('PEXPIRE', KEYS[1], math.ceil(capacity / rate * 1000) + 1000)
+return { allowed, retry }
+`;
+
+const STRIKE_WINDOW_SEC = 60;
+
+export type RateLimitResult =
+  { allowed: true } | { allowed: false; retryAfterMs: number };
+
+export class RateLimiter {
+  async check(
+    socket: SocketWithContext,
+    type: string
+  ): Promise<RateLimitResult> {
+    const rule = rateLimits[type] ?? rateLimits['*'];
+    if (!rule) return { allowed: true };
+
+    const { meetingId, participantId, userId } = socket.data;
+    const senderId = participantId ?? userId;
+
+    const buckets: [string, TokenBucket][] = [];
+    if (rule.participant && senderId) {
+      buckets.push([`ratelimit:${type}:p:${senderId}`, rule.participant]);
+    }
+    if (rule.room && meetingId) {
+      buckets.push([`ratelimit:${type}:m:${meetingId}`, rule.room]);
+    }
+
+    for (const [key, bucket] of buckets) {
+      const [allowed, retryAfterMs] = (await redis.eval(
+        TAKE_TOKEN_SCRIPT,
+        1,
+        key,
+        bucket.capacity,
+        bucket.refillPerSec,
+        Date.now()
+      )) as [number, number];
+
+      if (!allowed) {
+        return { allowed: false, retryAfterMs };
+      }
+    }
+
+    return { allowed: true };
+  }
+
+  // Count a violation and apply WS_RATE_LIMIT_PENALTY once a participant has
+  // been limited WS_RATE_LIMIT_STRIKES times within a minute
+  async strike(socket: SocketWithContext) {
+    const { meetingId, participantId } = socket.data;
+    if (
+      !meetingId ||
+      !participantId ||
+      env.WS_RATE_LIMIT_PENALTY === 'none' ||
+      env.WS_RATE_LIMIT_STRIKES <= 0
+    ) {
+      return;
+    }
+
+    const key = `ratelimit:strikes:${meetingId}:${participantId}`;
+    const results = await redis
+      .multi()
+      .incr(key)
+      .expire(key, STRIKE_WINDOW_SEC)
+      .exec();
+    const strikes = Number(results?.[0]?.[1] ?? 0);
+
+    if (strikes < env.WS_RATE_LIMIT_STRIKES) return;
+
+    await redis.del(key);
+    if (env.WS_RATE_LIMIT_PENALTY === 'mute') {
+      await muteParticipant(meetingId, participantId, 'system');
+    } else {
+      await removeParticipant(
+        meetingId,
+        participantId,
+        'system',
+        'Removed for flooding the room'
+      );
+    }
+  }
+}
+
+export const rateLimiter = new RateLimiter();
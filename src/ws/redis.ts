@@ -1,5 +1,8 @@
 import Redis from 'ioredis';
+import { ulid } from 'ulid';
 import { env } from '../env';
+import type { ParticipantRole } from '../common/types';
+import type { Capability } from '../common/permissions';
 
 // Create Redis connections lazily to avoid connection errors during app startup
 let redisInstance: Redis | null = null;
@@ -32,36 +35,93 @@ export const redis = getRedis();
 export const redisPub = getRedisPub();
 export const redisSub = getRedisSub();
 
-export const publishToMeeting = async (meetingId: string, message: any) => {
-  await redisPub.publish(`meeting:${meetingId}`, JSON.stringify(message));
+// Unique id of this Hub process, stamped on every envelope it publishes
+export const instanceId = ulid();
+
+type MeetingEnvelope = {
+  origin: string;
+  message: any;
 };
 
-export const subscribeToMeeting = (
-  meetingId: string,
-  callback: (message: any) => void
-) => {
-  const channel = `meeting:${meetingId}`;
+// Message addressed to a single participant on a specific node
+export type DirectedEnvelope = {
+  origin: string;
+  meetingId: string;
+  participantId: string;
+  message?: any;
+  evict?: boolean; // drop the participant from the node's room after delivery
+  lobby?: 'admit' | 'reject' | 'end'; // decision for a participant waiting in the lobby
+  role?: ParticipantRole; // new role for the participant's socket context
+  perms?: Capability[]; // grants that come with the new role
+};
+
+const channelHandlers = new Map<string, Set<(envelope: any) => void>>();
 
-  redisSub.subscribe(channel, err => {
-    if (err) {
-      console.error('Failed to subscribe to meeting channel:', err);
+redisSub.on('message', (channel: string, raw: string) => {
+  const handlers = channelHandlers.get(channel);
+  if (!handlers) return;
+
+  try {
+    const envelope = JSON.parse(raw) as { origin: string };
+
+    // Local sockets already received this event from broadcastToRoom
+    if (envelope.origin === instanceId) return;
+
+    for (const handler of handlers) {
+      handler(envelope);
     }
-  });
-
-  const messageHandler = (ch: string, message: string) => {
-    if (ch === channel) {
-      try {
-        callback(JSON.parse(message));
-      } catch (err) {
-        console.error('Failed to parse Redis message:', err);
+  } catch (err) {
+    console.error('Failed to parse Redis message:', err);
+  }
+});
+
+const subscribe = (channel: string, handler: (envelope: any) => void) => {
+  let handlers = channelHandlers.get(channel);
+  if (!handlers) {
+    handlers = new Set();
+    channelHandlers.set(channel, handlers);
+
+    redisSub.subscribe(channel, err => {
+      if (err) {
+        console.error(`Failed to subscribe to ${channel}:`, err);
       }
+    });
+  }
+  handlers.add(handler);
+
+  return () => {
+    const current = channelHandlers.get(channel);
+    if (!current) return;
+
+    current.delete(handler);
+    if (current.size === 0) {
+      channelHandlers.delete(channel);
+      redisSub.unsubscribe(channel);
     }
   };
+};
 
-  redisSub.on('message', messageHandler);
+export const publishToMeeting = async (meetingId: string, message: any) => {
+  const envelope: MeetingEnvelope = { origin: instanceId, message };
+  await redisPub.publish(`meeting:${meetingId}`, JSON.stringify(envelope));
+};
 
-  return () => {
-    redisSub.off('message', messageHandler);
-    redisSub.unsubscribe(channel);
-  };
+export const subscribeToMeeting = (
+  meetingId: string,
+  callback: (message: any) => void
+) =>
+  subscribe(`meeting:${meetingId}`, (envelope: MeetingEnvelope) =>
+    callback(envelope.message)
+  );
+
+export const publishToNode = async (
+  nodeId: string,
+  envelope: Omit<DirectedEnvelope, 'origin'>
+) => {
+  const message: DirectedEnvelope = { ...envelope, origin: instanceId };
+  await redisPub.publish(`node:${nodeId}`, JSON.stringify(message));
 };
+
+export const subscribeToNode = (
+  callback: (envelope: DirectedEnvelope) => void
+) => subscribe(`node:${instanceId}`, callback);
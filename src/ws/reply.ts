@@ -0,0 +1,43 @@
+import type { WSMessage, WSResponse } from '../common/types';
+import type { SocketWithContext } from './types';
+import { idempotencyStore, idempotencyOwner } from './idempotency';
+
+export const sendError = (
+  socket: SocketWithContext,
+  requestId: string | undefined,
+  error: string,
+  payload?: any
+) => {
+  const response: WSResponse = {
+    type: 'error',
+    requestId,
+    error,
+    payload,
+  };
+  socket.send(JSON.stringify(response));
+};
+
+// Acknowledge a command as `<type>.ack`, remembering the response when the
+// client sent an idempotency key
+export const sendAck = async (
+  socket: SocketWithContext,
+  message: WSMessage,
+  payload?: any
+) => {
+  const response: WSResponse = {
+    type: `${message.type}.ack`,
+    requestId: message.requestId,
+    payload,
+  };
+  socket.send(JSON.stringify(response));
+
+  const ownerId = idempotencyOwner(socket);
+  if (message.idempotencyKey && ownerId) {
+    await idempotencyStore.complete(
+      ownerId,
+      message.type,
+      message.idempotencyKey,
+      response
+    );
+  }
+};
@@ -0,0 +1,124 @@
+import { redis } from './redis';
+
+// 'unmute': a moderator asks a participant to turn their mic on.
+// 'screen': a participant asks a moderator to let them present.
+export type MediaRequestKind = 'unmute' | 'screen';
+
+export type MediaRequest = {
+  kind: MediaRequestKind;
+  participantId: string; // the participant being asked, or asking
+  requestedBy: string;
+  requestedAt: string; // ISO timestamp
+  expiresAt: string; // ISO timestamp
+};
+
+const REQUESTS_TTL_SEC = 24 * 60 * 60;
+
+// Deletes the field only if it still holds ARGV[2], so a request replaced in
+// the meantime is left alone
+const REMOVE_IF_UNCHANGED_SCRIPT = `
+if redis.call('HGET', KEYS[1], ARGV[1]) == ARGV[2] then
+  return redis.call('HDEL', KEYS[1], ARGV[1])
+end
+return 0
+`;
+
+const requestsKey = (meetingId: string) => `meeting:${meetingId}:requests`;
+
+const requestField = (kind: MediaRequestKind, participantId: string) =>
+  `${kind}:${participantId}`;
+
+const isExpired = (request: MediaRequest) =>
+  Date.parse(request.expiresAt) <= Date.now();
+
+// Pending media requests of a meeting, at most one of each kind per
+// participant. Expiry timers run on the node that opened the request; expired
+// entries are also pruned on read in case that node went away.
+export class MediaRequestStore {
+  // Returns false if the same request is already pending. HSETNX lets only
+  // one of two concurrent requests through.
+  async open(meetingId: string, request: MediaRequest) {
+    const field = requestField(request.kind, request.participantId);
+
+    // An expired request its node never cleaned up does not block a new one
+    const existing = await redis.hget(requestsKey(meetingId), field);
+    if (existing && isExpired(JSON.parse(existing) as MediaRequest)) {
+      await this.removeIfUnchanged(meetingId, field, existing);
+    }
+
+    const results = await redis
+      .multi()
+      .hsetnx(requestsKey(meetingId), field, JSON.stringify(request))
+      .expire(requestsKey(meetingId), REQUESTS_TTL_SEC)
+      .exec();
+    return Number(results?.[0]?.[1]) === 1;
+  }
+
+  async get(meetingId: string, kind: MediaRequestKind, participantId: string) {
+    const raw = await redis.hget(
+      requestsKey(meetingId),
+      requestField(kind, participantId)
+    );
+    if (!raw) return null;
+
+    const request = JSON.parse(raw) as MediaRequest;
+    return isExpired(request) ? null : request;
+  }
+
+  // Removes and returns a request that is still pending, or with `expired`
+  // one that has run out. Only one caller gets it, so a request cannot be
+  // answered and expire at the same time; an expired request is left for the
+  // expiry to resolve.
+  async take(
+    meetingId: string,
+    kind: MediaRequestKind,
+    participantId: string,
+    { expired = false } = {}
+  ) {
+    const field = requestField(kind, participantId);
+    const raw = await redis.hget(requestsKey(meetingId), field);
+    if (!raw) return null;
+
+    const request = JSON.parse(raw) as MediaRequest;
+    if (isExpired(request) !== expired) return null;
+
+    const removed = await this.removeIfUnchanged(meetingId, field, raw);
+    return removed ? request : null;
+  }
+
+  private async removeIfUnchanged(
+    meetingId: string,
+    field: string,
+    raw: string
+  ) {
+    const removed = await redis.eval(
+      REMOVE_IF_UNCHANGED_SCRIPT,
+      1,
+      requestsKey(meetingId),
+      field,
+      raw
+    );
+    return Number(removed) === 1;
+  }
+
+  async list(meetingId: string): Promise<MediaRequest[]> {
+    const raw = await redis.hgetall(requestsKey(meetingId));
+    const requests = Object.values(raw).map(
+      value => JSON.parse(value) as MediaRequest
+    );
+
+    const expired = requests.filter(isExpired);
+    if (expired.length > 0) {
+      await redis.hdel(
+        requestsKey(meetingId),
+        ...expired.map(r => requestField(r.kind, r.participantId))
+      );
+    }
+
+    return requests
+      .filter(r => !isExpired(r))
+      .sort((a, b) => a.requestedAt.localeCompare(b.requestedAt));
+  }
+}
+
+export const mediaRequests = new MediaRequestStore();
@@ -0,0 +1,74 @@
+import { nanoid } from 'nanoid';
+import { redis } from './redis';
+import { env } from '../env';
+
+export type ResumeSession = {
+  meetingId: string;
+  participantId: string;
+};
+
+// Tokens live as long as the participant is in the room; the grace period
+// after a disconnect is what actually bounds the resume window
+const TOKEN_TTL_SEC = 24 * 60 * 60;
+const MAX_BUFFERED_EVENTS = 500;
+
+const tokenKey = (token: string) => `resume:${token}`;
+const participantTokenKey = (participantId: string) =>
+  `participant:${participantId}:resume-token`;
+const bufferKey = (participantId: string) =>
+  `participant:${participantId}:resume-buffer`;
+
+export class ResumeStore {
+  async issue(meetingId: string, participantId: string) {
+    await this.revoke(participantId);
+
+    const token = nanoid(32);
+    const session: ResumeSession = { meetingId, participantId };
+    await redis
+      .multi()
+      .set(tokenKey(token), JSON.stringify(session), 'EX', TOKEN_TTL_SEC)
+      .set(participantTokenKey(participantId), token, 'EX', TOKEN_TTL_SEC)
+      .exec();
+
+    return token;
+  }
+
+  async get(token: string) {
+    const raw = await redis.get(tokenKey(token));
+    return raw ? (JSON.parse(raw) as ResumeSession) : null;
+  }
+
+  async revoke(participantId: string) {
+    const token = await redis.get(participantTokenKey(participantId));
+    if (token) {
+      await redis.del(tokenKey(token), participantTokenKey(participantId));
+    }
+  }
+
+  // Room events that happened while the participant had no socket
+  async buffer(participantId: string, message: any) {
+    await redis
+      .multi()
+      .rpush(bufferKey(participantId), JSON.stringify(message))
+      .ltrim(bufferKey(participantId), -MAX_BUFFERED_EVENTS, -1)
+      .pexpire(bufferKey(participantId), env.WS_DISCONNECT_GRACE_MS * 2)
+      .exec();
+  }
+
+  async drain(participantId: string) {
+    const results = await redis
+      .multi()
+      .lrange(bufferKey(participantId), 0, -1)
+      .del(bufferKey(participantId))
+      .exec();
+    const raw = (results?.[0]?.[1] as string[] | undefined) ?? [];
+
+    return raw.map(value => JSON.parse(value));
+  }
+
+  async clearBuffer(participantId: string) {
+    await redis.del(bufferKey(participantId));
+  }
+}
+
+export const resumeStore = new ResumeStore();
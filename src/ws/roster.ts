@@ -0,0 +1,173 @@
+import { redis, instanceId } from './redis';
+import { env } from '../env';
+import type { MediaState, ParticipantRole } from '../common/types';
+import type { Capability } from '../common/permissions';
+
+export type RosterEntry = {
+  participantId: string;
+  displayName: string;
+  role: ParticipantRole;
+  customRoleId: string | null;
+  perms: Capability[];
+  grants?: Capability[]; // added for the session on top of the role
+  mediaState: MediaState;
+  handRaised: boolean;
+  nodeId: string;
+};
+
+export type RosterPatch = Partial<
+  Omit<RosterEntry, 'participantId' | 'mediaState'>
+> & {
+  mediaState?: Partial<MediaState>;
+};
+
+const ROSTER_TTL_SEC = 24 * 60 * 60;
+const MAX_UPDATE_ATTEMPTS = 10;
+
+// Writes ARGV[3] to the entry only if it still holds ARGV[2]
+const SWAP_ENTRY_SCRIPT = `
+if redis.call('HGET', KEYS[1], ARGV[1]) ~= ARGV[2] then
+  return 0
+end
+redis.call('HSET', KEYS[1], ARGV[1], ARGV[3])
+return 1
+`;
+
+// Capabilities granted for the session outlive role and permission changes
+// and reconnects
+export const withSessionGrants = (
+  perms: Capability[],
+  entry: RosterEntry | null
+) => [...new Set([...perms, ...(entry?.grants ?? [])])];
+
+const rosterKey = (meetingId: string) => `meeting:${meetingId}:roster`;
+const nodeKey = (nodeId: string) => `node:${nodeId}:alive`;
+
+// The subset of `nodeIds` whose heartbeat has not expired
+export const findLiveNodes = async (nodeIds: string[]) => {
+  const unique = [...new Set(nodeIds)];
+  if (unique.length === 0) return new Set<string>();
+
+  const heartbeats = await redis.mget(...unique.map(nodeKey));
+  return new Set(unique.filter((_, i) => heartbeats[i] !== null));
+};
+
+// Cluster-wide list of participants currently connected to a meeting.
+// Entries belong to the node holding the socket; entries of nodes whose
+// heartbeat has expired are treated as stale and pruned on read.
+export class RoomRoster {
+  private heartbeat: ReturnType<typeof setInterval> | null = null;
+
+  startHeartbeat() {
+    if (this.heartbeat) return;
+
+    const beat = () =>
+      redis
+        .set(nodeKey(instanceId), Date.now(), 'EX', env.NODE_HEARTBEAT_TTL_SEC)
+        .catch(err => console.error('Failed to write node heartbeat:', err));
+
+    beat();
+    this.heartbeat = setInterval(beat, (env.NODE_HEARTBEAT_TTL_SEC * 1000) / 3);
+  }
+
+  stopHeartbeat() {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+  }
+
+  async upsert(meetingId: string, entry: Omit<RosterEntry, 'nodeId'>) {
+    const value: RosterEntry = { ...entry, nodeId: instanceId };
+    await redis
+      .multi()
+      .hset(rosterKey(meetingId), entry.participantId, JSON.stringify(value))
+      .expire(rosterKey(meetingId), ROSTER_TTL_SEC)
+      .exec();
+  }
+
+  // Patches an entry without losing concurrent updates from other nodes:
+  // the entry is only written back if it is unchanged since it was read,
+  // otherwise the patch is applied again to the newer value. `mediaState` is
+  // merged per track, so a moderator mute and the participant's own camera
+  // change both land.
+  async update(
+    meetingId: string,
+    participantId: string,
+    patch: RosterPatch
+  ): Promise<RosterEntry | null> {
+    for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+      const raw = await redis.hget(rosterKey(meetingId), participantId);
+      if (!raw) return null;
+
+      const entry = JSON.parse(raw) as RosterEntry;
+      const updated: RosterEntry = {
+        ...entry,
+        ...patch,
+        mediaState: { ...entry.mediaState, ...patch.mediaState },
+      };
+
+      const swapped = await redis.eval(
+        SWAP_ENTRY_SCRIPT,
+        1,
+        rosterKey(meetingId),
+        participantId,
+        raw,
+        JSON.stringify(updated)
+      );
+      if (swapped) return updated;
+    }
+
+    throw new Error(`Roster entry ${participantId} kept changing`);
+  }
+
+  async remove(meetingId: string, participantId: string) {
+    await redis.hdel(rosterKey(meetingId), participantId);
+  }
+
+  async get(meetingId: string, participantId: string) {
+    const raw = await redis.hget(rosterKey(meetingId), participantId);
+    if (!raw) return null;
+
+    const entry = JSON.parse(raw) as RosterEntry;
+    const alive = await redis.exists(nodeKey(entry.nodeId));
+    if (!alive) {
+      await this.remove(meetingId, participantId);
+      return null;
+    }
+
+    return entry;
+  }
+
+  async list(meetingId: string): Promise<RosterEntry[]> {
+    const raw = await redis.hgetall(rosterKey(meetingId));
+    const entries = Object.values(raw).map(
+      value => JSON.parse(value) as RosterEntry
+    );
+    if (entries.length === 0) return [];
+
+    const liveNodes = await findLiveNodes(entries.map(e => e.nodeId));
+
+    const stale = entries.filter(e => !liveNodes.has(e.nodeId));
+    if (stale.length > 0) {
+      await redis.hdel(
+        rosterKey(meetingId),
+        ...stale.map(e => e.participantId)
+      );
+    }
+
+    return entries.filter(e => liveNodes.has(e.nodeId));
+  }
+
+  // Whether the participant fits under a participant limit; those already in
+  // the room always do
+  async hasRoomFor(meetingId: string, participantId: string, limit: number) {
+    const entries = await this.list(meetingId);
+    return (
+      entries.length < limit ||
+      entries.some(e => e.participantId === participantId)
+    );
+  }
+}
+
+export const roomRoster = new RoomRoster();
@@ -0,0 +1,347 @@
+import type { z } from 'zod';
+import type { WSMessage } from '../common/types';
+import type { SocketWithContext } from './types';
+import { can, type Capability } from '../common/permissions';
+import {
+  wsMessageSchema,
+  pingSchema,
+  authenticateSchema,
+  roomJoinSchema,
+  roomLeaveSchema,
+  roomResumeSchema,
+  roomEndSchema,
+  rtcSignalSchema,
+  mediaUpdateSchema,
+  chatSendSchema,
+  chatEditSchema,
+  chatDeleteSchema,
+  chatRedactSchema,
+  chatReactSchema,
+  chatUnreactSchema,
+  chatTypingSchema,
+  chatReadSchema,
+  reactionSendSchema,
+  handRaiseSchema,
+  handLowerSchema,
+  moderationMuteSchema,
+  moderationRemoveSchema,
+  moderationMuteAllSchema,
+  moderationLockMicSchema,
+  moderationDisableCamSchema,
+  moderationStopScreenSchema,
+  moderationRequestUnmuteSchema,
+  moderationAnswerScreenSchema,
+  moderationSetRoleSchema,
+  moderationAssignRoleSchema,
+  moderationTransferHostSchema,
+  moderationLockSchema,
+  moderationUnlockSchema,
+  moderationUpdateSettingsSchema,
+  mediaAnswerUnmuteSchema,
+  mediaRequestScreenSchema,
+  lobbyAdmitSchema,
+  lobbyAdmitAllSchema,
+  lobbyRejectSchema,
+} from './schemas';
+import { sendError } from './reply';
+import { idempotencyStore, idempotencyOwner } from './idempotency';
+import { rateLimiter } from './rate-limit';
+import { handlePing, handleAuthenticate } from './handlers/connection';
+import {
+  handleRoomJoin,
+  handleRoomLeave,
+  handleRoomResume,
+  handleRoomEnd,
+} from './handlers/room';
+import { handleRTCSignal } from './handlers/rtc';
+import {
+  handleChatSend,
+  handleChatEdit,
+  handleChatDelete,
+  handleChatRedact,
+  handleChatReact,
+  handleChatUnreact,
+  handleChatTyping,
+  handleChatRead,
+} from './handlers/chat';
+import { handleMediaUpdate } from './handlers/media';
+import {
+  handleHandRaise,
+  handleHandLower,
+  handleReactionSend,
+} from './handlers/presence';
+import {
+  handleModerationMute,
+  handleModerationRemove,
+  handleModerationMuteAll,
+  handleModerationLockMic,
+  handleModerationDisableCam,
+  handleModerationStopScreen,
+  handleModerationSetRole,
+  handleModerationAssignRole,
+  handleModerationTransferHost,
+  handleModerationLock,
+  handleModerationUnlock,
+  handleModerationUpdateSettings,
+} from './handlers/moderation';
+import {
+  handleModerationRequestUnmute,
+  handleModerationAnswerScreen,
+  handleMediaAnswerUnmute,
+  handleMediaRequestScreen,
+} from './handlers/requests';
+import {
+  handleLobbyAdmit,
+  handleLobbyAdmitAll,
+  handleLobbyReject,
+} from './handlers/lobby';
+
+// Token verifiers provided by the gateway's JWT plugins
+export type WSHandlerContext = {
+  verifyAccessToken: (token: string) => Promise<any>;
+  verifyRoomToken: (token: string) => Promise<any>;
+};
+
+type WSRoute<P> = {
+  schema: z.ZodType<P>;
+  handler: (
+    socket: SocketWithContext,
+    message: WSMessage<P>,
+    ctx: WSHandlerContext
+  ) => unknown;
+  public?: boolean; // can be used before auth.authenticate
+  capability?: Capability; // required grant from the room token
+};
+
+const route = <P>(
+  schema: z.ZodType<P>,
+  handler: WSRoute<P>['handler'],
+  options: { public?: boolean; capability?: Capability } = {}
+): WSRoute<any> => ({ schema, handler, ...options });
+
+export const routes: Record<string, WSRoute<any>> = {
+  ping: route(pingSchema, handlePing, { public: true }),
+  'auth.authenticate': route(
+    authenticateSchema,
+    (socket, message, ctx) =>
+      handleAuthenticate(socket, message, ctx.verifyAccessToken),
+    { public: true }
+  ),
+  'room.join': route(roomJoinSchema, (socket, message, ctx) =>
+    handleRoomJoin(socket, message, ctx.verifyRoomToken)
+  ),
+  'room.leave': route(roomLeaveSchema, handleRoomLeave),
+  'room.resume': route(roomResumeSchema, handleRoomResume),
+  'room.end': route(roomEndSchema, handleRoomEnd, {
+    capability: 'manageMeeting',
+  }),
+  'rtc.signal': route(rtcSignalSchema, handleRTCSignal),
+  'media.update': route(mediaUpdateSchema, handleMediaUpdate),
+  'media.answerUnmute': route(mediaAnswerUnmuteSchema, handleMediaAnswerUnmute),
+  'media.requestScreen': route(
+    mediaRequestScreenSchema,
+    handleMediaRequestScreen
+  ),
+  'chat.send': route(chatSendSchema, handleChatSend, { capability: 'chat' }),
+  'chat.edit': route(chatEditSchema, handleChatEdit, { capability: 'chat' }),
+  'chat.delete': route(chatDeleteSchema, handleChatDelete),
+  'chat.redact': route(chatRedactSchema, handleChatRedact, {
+    capability: 'moderate',
+  }),
+  'chat.react': route(chatReactSchema, handleChatReact, {
+    capability: 'react',
+  }),
+  'chat.unreact': route(chatUnreactSchema, handleChatUnreact, {
+    capability: 'react',
+  }),
+  'chat.typing': route(chatTypingSchema, handleChatTyping, {
+    capability: 'chat',
+  }),
+  'chat.read': route(chatReadSchema, handleChatRead),
+  'reaction.send': route(reactionSendSchema, handleReactionSend, {
+    capability: 'react',
+  }),
+  'hand.raise': route(handRaiseSchema, handleHandRaise),
+  'hand.lower': route(handLowerSchema, handleHandLower),
+  'moderation.mute': route(moderationMuteSchema, handleModerationMute, {
+    capability: 'moderate',
+  }),
+  'moderation.remove': route(moderationRemoveSchema, handleModerationRemove, {
+    capability: 'moderate',
+  }),
+  'moderation.muteAll': route(
+    moderationMuteAllSchema,
+    handleModerationMuteAll,
+    { capability: 'moderate' }
+  ),
+  'moderation.lockMic': route(
+    moderationLockMicSchema,
+    handleModerationLockMic,
+    { capability: 'moderate' }
+  ),
+  'moderation.disableCam': route(
+    moderationDisableCamSchema,
+    handleModerationDisableCam,
+    { capability: 'moderate' }
+  ),
+  'moderation.stopScreen': route(
+    moderationStopScreenSchema,
+    handleModerationStopScreen,
+    { capability: 'moderate' }
+  ),
+  'moderation.setRole': route(
+    moderationSetRoleSchema,
+    handleModerationSetRole,
+    { capability: 'manageRoles' }
+  ),
+  'moderation.assignRole': route(
+    moderationAssignRoleSchema,
+    handleModerationAssignRole,
+    { capability: 'manageRoles' }
+  ),
+  'moderation.transferHost': route(
+    moderationTransferHostSchema,
+    handleModerationTransferHost,
+    { capability: 'manageRoles' }
+  ),
+  'moderation.lock': route(moderationLockSchema, handleModerationLock, {
+    capability: 'moderate',
+  }),
+  'moderation.unlock': route(moderationUnlockSchema, handleModerationUnlock, {
+    capability: 'moderate',
+  }),
+  'moderation.updateSettings': route(
+    moderationUpdateSettingsSchema,
+    handleModerationUpdateSettings,
+    { capability: 'manageMeeting' }
+  ),
+  'moderation.requestUnmute': route(
+    moderationRequestUnmuteSchema,
+    handleModerationRequestUnmute,
+    { capability: 'moderate' }
+  ),
+  'moderation.answerScreen': route(
+    moderationAnswerScreenSchema,
+    handleModerationAnswerScreen,
+    { capability: 'moderate' }
+  ),
+  'lobby.admit': route(lobbyAdmitSchema, handleLobbyAdmit, {
+    capability: 'admit',
+  }),
+  'lobby.admitAll': route(lobbyAdmitAllSchema, handleLobbyAdmitAll, {
+    capability: 'admit',
+  }),
+  'lobby.reject': route(lobbyRejectSchema, handleLobbyReject, {
+    capability: 'admit',
+  }),
+};
+
+const formatIssues = (error: z.ZodError) =>
+  error.issues.map(issue => ({
+    path: issue.path.join('.'),
+    code: issue.code,
+    message: issue.message,
+  }));
+
+export const dispatchMessage = async (
+  socket: SocketWithContext,
+  raw: unknown,
+  ctx: WSHandlerContext
+) => {
+  let data: unknown = raw;
+  if (typeof raw === 'string') {
+    try {
+      data = JSON.parse(raw);
+    } catch {
+      sendError(socket, undefined, 'Malformed message: invalid JSON');
+      return;
+    }
+  }
+
+  const envelope = wsMessageSchema.safeParse(data);
+  if (!envelope.success) {
+    sendError(socket, undefined, 'Malformed message', {
+      type: 'validation/invalid',
+      issues: formatIssues(envelope.error),
+    });
+    return;
+  }
+
+  const msg: WSMessage = envelope.data;
+  console.log('Received message:', msg.type);
+
+  const entry = routes[msg.type];
+  if (!entry) {
+    sendError(socket, msg.requestId, `Unknown message type: ${msg.type}`);
+    return;
+  }
+
+  // All other messages require authentication
+  if (!entry.public && !socket.data.authenticated) {
+    sendError(socket, msg.requestId, 'Not authenticated');
+    return;
+  }
+
+  if (entry.capability && !can(socket.data.perms, entry.capability)) {
+    sendError(
+      socket,
+      msg.requestId,
+      socket.data.meetingId ? 'Insufficient permissions' : 'Not in a room'
+    );
+    return;
+  }
+
+  const payload = entry.schema.safeParse(msg.payload);
+  if (!payload.success) {
+    sendError(socket, msg.requestId, `Invalid payload for ${msg.type}`, {
+      type: 'validation/invalid',
+      issues: formatIssues(payload.error),
+    });
+    return;
+  }
+
+  if (!entry.public) {
+    const limit = await rateLimiter.check(socket, msg.type);
+    if (!limit.allowed) {
+      sendError(socket, msg.requestId, 'Rate limit exceeded', {
+        type: 'rate_limited',
+        retryAfterMs: limit.retryAfterMs,
+      });
+      await rateLimiter.strike(socket);
+      return;
+    }
+  }
+
+  // A retried command with a known idempotency key gets the original ack
+  const { idempotencyKey } = msg;
+  const ownerId = idempotencyOwner(socket);
+  if (idempotencyKey && ownerId && !entry.public) {
+    const claim = await idempotencyStore.claim(
+      ownerId,
+      msg.type,
+      idempotencyKey
+    );
+    if (!claim.claimed) {
+      if (claim.response) {
+        socket.send(
+          JSON.stringify({ ...claim.response, requestId: msg.requestId })
+        );
+      } else {
+        sendError(
+          socket,
+          msg.requestId,
+          'A request with this idempotency key is already in progress'
+        );
+      }
+      return;
+    }
+  }
+
+  try {
+    await entry.handler(socket, { ...msg, payload: payload.data }, ctx);
+  } finally {
+    if (idempotencyKey && ownerId && !entry.public) {
+      await idempotencyStore.releasePending(ownerId, msg.type, idempotencyKey);
+    }
+  }
+};
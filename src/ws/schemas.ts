@@ -0,0 +1,253 @@
+import { z } from 'zod';
+import type { WSMessage } from '../common/types';
+import { updateMeetingSettingsDto } from '../meetings/dto';
+import type {
+  PingMessage,
+  AuthenticateMessage,
+  RoomJoinMessage,
+  RoomLeaveMessage,
+  RoomEndMessage,
+  RoomResumeMessage,
+  RTCSignalMessage,
+  MediaUpdateMessage,
+  ChatSendMessage,
+  ChatEditMessage,
+  ChatDeleteMessage,
+  ChatRedactMessage,
+  ChatReactMessage,
+  ChatUnreactMessage,
+  ChatTypingMessage,
+  ChatReadMessage,
+  ReactionSendMessage,
+  HandRaiseMessage,
+  HandLowerMessage,
+  ModerationMuteMessage,
+  ModerationRemoveMessage,
+  ModerationMuteAllMessage,
+  ModerationLockMicMessage,
+  ModerationDisableCamMessage,
+  ModerationStopScreenMessage,
+  ModerationRequestUnmuteMessage,
+  ModerationSetRoleMessage,
+  ModerationAssignRoleMessage,
+  ModerationLockMessage,
+  ModerationUnlockMessage,
+  ModerationUpdateSettingsMessage,
+  ModerationTransferHostMessage,
+  ModerationAnswerScreenMessage,
+  MediaAnswerUnmuteMessage,
+  MediaRequestScreenMessage,
+  LobbyAdmitMessage,
+  LobbyAdmitAllMessage,
+  LobbyRejectMessage,
+} from './types';
+
+// Payload type of a WSMessage, used to keep each schema in sync with ./types
+type PayloadOf<M> = M extends WSMessage<infer P> ? P : never;
+
+// Envelope every incoming frame must match before it is routed
+export const wsMessageSchema = z.object({
+  type: z.string().min(1),
+  requestId: z.string().max(128).optional(),
+  idempotencyKey: z.string().min(1).max(128).optional(),
+  payload: z.unknown().optional(),
+});
+
+const emptyPayload = z.object({}).default({});
+const onOff = z.enum(['on', 'off']);
+const participantTarget = z.object({
+  participantId: z.string().min(1),
+});
+
+export const pingSchema = emptyPayload satisfies z.ZodType<
+  PayloadOf<PingMessage>
+>;
+
+export const authenticateSchema = z.object({
+  accessToken: z.string().min(1),
+}) satisfies z.ZodType<PayloadOf<AuthenticateMessage>>;
+
+export const roomJoinSchema = z.object({
+  roomToken: z.string().min(1),
+  device: z.object({
+    mic: z.boolean(),
+    cam: z.boolean(),
+  }),
+}) satisfies z.ZodType<PayloadOf<RoomJoinMessage>>;
+
+export const roomLeaveSchema = emptyPayload satisfies z.ZodType<
+  PayloadOf<RoomLeaveMessage>
+>;
+
+export const roomEndSchema = emptyPayload satisfies z.ZodType<
+  PayloadOf<RoomEndMessage>
+>;
+
+export const roomResumeSchema = z.object({
+  resumeToken: z.string().min(1),
+}) satisfies z.ZodType<PayloadOf<RoomResumeMessage>>;
+
+export const rtcSignalSchema = z.object({
+  to: z.string().min(1),
+  type: z.enum(['offer', 'answer', 'ice']),
+  sdp: z.any().optional(),
+  candidate: z.any().optional(),
+}) satisfies z.ZodType<PayloadOf<RTCSignalMessage>>;
+
+export const mediaUpdateSchema = z
+  .object({
+    mic: onOff.optional(),
+    cam: onOff.optional(),
+    screen: onOff.optional(),
+  })
+  .strict() satisfies z.ZodType<PayloadOf<MediaUpdateMessage>>;
+
+const chatText = z.string().trim().min(1).max(4000);
+
+export const chatSendSchema = z
+  .object({
+    text: chatText,
+    to: z
+      .union([z.string().min(1), z.array(z.string().min(1)).min(1).max(50)])
+      .optional(),
+    audience: z.enum(['everyone', 'moderators']).optional(),
+    replyTo: z.string().min(1).optional(),
+  })
+  .refine(payload => !(payload.to && payload.audience === 'moderators'), {
+    message: 'A direct message cannot also target the moderators',
+    path: ['audience'],
+  }) satisfies z.ZodType<PayloadOf<ChatSendMessage>>;
+
+export const chatEditSchema = z.object({
+  messageId: z.string().min(1),
+  text: chatText,
+}) satisfies z.ZodType<PayloadOf<ChatEditMessage>>;
+
+export const chatDeleteSchema = z.object({
+  messageId: z.string().min(1),
+}) satisfies z.ZodType<PayloadOf<ChatDeleteMessage>>;
+
+export const chatRedactSchema = z.object({
+  messageId: z.string().min(1),
+  reason: z.string().max(255).optional(),
+}) satisfies z.ZodType<PayloadOf<ChatRedactMessage>>;
+
+const chatReaction = z.object({
+  messageId: z.string().min(1),
+  emoji: z.string().trim().min(1).max(32),
+});
+
+export const chatReactSchema = chatReaction satisfies z.ZodType<
+  PayloadOf<ChatReactMessage>
+>;
+
+export const chatUnreactSchema = chatReaction satisfies z.ZodType<
+  PayloadOf<ChatUnreactMessage>
+>;
+
+// `typing: false` stops typing right away; otherwise it expires by itself
+export const chatTypingSchema = z
+  .object({
+    typing: z.boolean().default(true),
+  })
+  .default({ typing: true }) satisfies z.ZodType<PayloadOf<ChatTypingMessage>>;
+
+export const chatReadSchema = z.object({
+  messageId: z.string().min(1),
+}) satisfies z.ZodType<PayloadOf<ChatReadMessage>>;
+
+export const reactionSendSchema = z.object({
+  type: z.string().min(1).max(32),
+}) satisfies z.ZodType<PayloadOf<ReactionSendMessage>>;
+
+export const handRaiseSchema = emptyPayload satisfies z.ZodType<
+  PayloadOf<HandRaiseMessage>
+>;
+
+export const handLowerSchema = emptyPayload satisfies z.ZodType<
+  PayloadOf<HandLowerMessage>
+>;
+
+export const moderationMuteSchema = participantTarget satisfies z.ZodType<
+  PayloadOf<ModerationMuteMessage>
+>;
+
+export const moderationMuteAllSchema = z
+  .object({
+    exclude: z.array(z.string().min(1)).max(500).optional(),
+    lockMic: z.boolean().optional(),
+  })
+  .default({}) satisfies z.ZodType<PayloadOf<ModerationMuteAllMessage>>;
+
+export const moderationLockMicSchema = z.object({
+  locked: z.boolean(),
+}) satisfies z.ZodType<PayloadOf<ModerationLockMicMessage>>;
+
+export const moderationDisableCamSchema = participantTarget satisfies z.ZodType<
+  PayloadOf<ModerationDisableCamMessage>
+>;
+
+export const moderationStopScreenSchema = participantTarget satisfies z.ZodType<
+  PayloadOf<ModerationStopScreenMessage>
+>;
+
+export const moderationSetRoleSchema = participantTarget.extend({
+  role: z.enum(['cohost', 'guest']),
+}) satisfies z.ZodType<PayloadOf<ModerationSetRoleMessage>>;
+
+export const moderationAssignRoleSchema = participantTarget.extend({
+  roleId: z.string().min(1).nullable(),
+}) satisfies z.ZodType<PayloadOf<ModerationAssignRoleMessage>>;
+
+export const moderationTransferHostSchema =
+  participantTarget satisfies z.ZodType<
+    PayloadOf<ModerationTransferHostMessage>
+  >;
+
+export const moderationLockSchema = emptyPayload satisfies z.ZodType<
+  PayloadOf<ModerationLockMessage>
+>;
+
+// Same keys and validation as PATCH /v1/meetings/:id/settings
+export const moderationUpdateSettingsSchema =
+  updateMeetingSettingsDto satisfies z.ZodType<
+    PayloadOf<ModerationUpdateSettingsMessage>
+  >;
+
+export const moderationUnlockSchema = emptyPayload satisfies z.ZodType<
+  PayloadOf<ModerationUnlockMessage>
+>;
+
+export const moderationRequestUnmuteSchema =
+  participantTarget satisfies z.ZodType<
+    PayloadOf<ModerationRequestUnmuteMessage>
+  >;
+
+export const moderationAnswerScreenSchema = participantTarget.extend({
+  accept: z.boolean(),
+}) satisfies z.ZodType<PayloadOf<ModerationAnswerScreenMessage>>;
+
+export const mediaAnswerUnmuteSchema = z.object({
+  accept: z.boolean(),
+}) satisfies z.ZodType<PayloadOf<MediaAnswerUnmuteMessage>>;
+
+export const mediaRequestScreenSchema = emptyPayload satisfies z.ZodType<
+  PayloadOf<MediaRequestScreenMessage>
+>;
+
+export const moderationRemoveSchema = participantTarget.extend({
+  ban: z.boolean().default(true),
+  reason: z.string().max(255).optional(),
+}) satisfies z.ZodType<PayloadOf<ModerationRemoveMessage>>;
+
+export const lobbyAdmitSchema = participantTarget satisfies z.ZodType<
+  PayloadOf<LobbyAdmitMessage>
+>;
+
+export const lobbyAdmitAllSchema = emptyPayload satisfies z.ZodType<
+  PayloadOf<LobbyAdmitAllMessage>
+>;
+
+export const lobbyRejectSchema = participantTarget satisfies z.ZodType<
+  PayloadOf<LobbyRejectMessage>
+>;
@@ -1,8 +1,86 @@
-import type { SocketWithContext, RoomState } from './types';
+import type { SocketWithContext, RoomState, LobbyDecision } from './types';
+import {
+  instanceId,
+  publishToNode,
+  subscribeToMeeting,
+  subscribeToNode,
+  type DirectedEnvelope,
+} from './redis';
+import { roomRoster } from './roster';
+import type { ParticipantRole } from '../common/types';
+import { can, type Capability } from '../common/permissions';
+import { resumeStore } from './resume';
+
+// Presence events, withheld from participants who may not see the roster
+const rosterEvents = new Set([
+  'participant.joined',
+  'participant.left',
+  'participant.roleChanged',
+]);
 
 // In-memory state for connected clients
 export class WSState {
   private rooms: Map<string, RoomState> = new Map();
+  private connections: Set<SocketWithContext> = new Set();
+  private lobby: Map<string, SocketWithContext> = new Map(); // participantId -> waiting socket
+  private lobbyHandler: ((decision: LobbyDecision) => void) | null = null;
+  private unsubscribeNode: (() => void) | null = null;
+
+  // Receive messages other nodes route to participants connected here
+  start() {
+    if (this.unsubscribeNode) return;
+    this.unsubscribeNode = subscribeToNode(envelope => this.deliver(envelope));
+  }
+
+  stop() {
+    this.unsubscribeNode?.();
+    this.unsubscribeNode = null;
+  }
+
+  track(socket: SocketWithContext) {
+    this.connections.add(socket);
+  }
+
+  untrack(socket: SocketWithContext) {
+    this.connections.delete(socket);
+  }
+
+  getConnections(): SocketWithContext[] {
+    return Array.from(this.connections);
+  }
+
+  addToLobby(participantId: string, socket: SocketWithContext) {
+    this.lobby.set(participantId, socket);
+  }
+
+  removeFromLobby(participantId: string, socket: SocketWithContext) {
+    if (this.lobby.get(participantId) === socket) {
+      this.lobby.delete(participantId);
+    }
+  }
+
+  getLobbySocket(participantId: string) {
+    return this.lobby.get(participantId);
+  }
+
+  // Set by the room handlers, which own the admission flow
+  onLobbyDecision(handler: (decision: LobbyDecision) => void) {
+    this.lobbyHandler = handler;
+  }
+
+  // Hand an admit/reject decision to the node holding the waiting socket
+  async sendLobbyDecision(nodeId: string, decision: LobbyDecision) {
+    if (nodeId === instanceId) {
+      this.lobbyHandler?.(decision);
+      return;
+    }
+
+    await publishToNode(nodeId, {
+      meetingId: decision.meetingId,
+      participantId: decision.participantId,
+      lobby: decision.decision,
+    });
+  }
 
   addToRoom(
     meetingId: string,
@@ -10,27 +88,76 @@ export class WSState {
     socket: SocketWithContext
   ) {
     if (!this.rooms.has(meetingId)) {
+      // First local participant: start receiving the room's events from other nodes
+      const unsubscribe = subscribeToMeeting(meetingId, message =>
+        message.type === 'room.ended'
+          ? this.closeRoom(meetingId, message)
+          : this.broadcastToRoom(meetingId, message)
+      );
+
       this.rooms.set(meetingId, {
         meetingId,
         sockets: new Map(),
+        detached: new Map(),
+        unsubscribe,
       });
     }
 
     const room = this.rooms.get(meetingId)!;
+    room.detached.delete(participantId);
     room.sockets.set(participantId, socket);
   }
 
+  // Keep a participant whose socket dropped in the room without a socket, so
+  // events addressed to it are buffered for room.resume
+  detachFromRoom(
+    meetingId: string,
+    participantId: string,
+    socket: SocketWithContext
+  ) {
+    const room = this.rooms.get(meetingId);
+    if (!room || room.sockets.get(participantId) !== socket) return;
+
+    room.sockets.delete(participantId);
+    room.detached.set(participantId, socket.data.perms ?? []);
+  }
+
+  isDetached(meetingId: string, participantId: string) {
+    return this.rooms.get(meetingId)?.detached.has(participantId) ?? false;
+  }
+
   removeFromRoom(meetingId: string, participantId: string) {
     const room = this.rooms.get(meetingId);
     if (!room) return;
 
     room.sockets.delete(participantId);
+    room.detached.delete(participantId);
 
-    if (room.sockets.size === 0) {
+    if (room.sockets.size === 0 && room.detached.size === 0) {
+      room.unsubscribe();
       this.rooms.delete(meetingId);
     }
   }
 
+  // The meeting ended: send `message` to every local socket of the room and
+  // close them. The sockets leave the room first, so closing them does not
+  // start a disconnect grace period.
+  closeRoom(meetingId: string, message: any) {
+    const room = this.rooms.get(meetingId);
+    if (!room) return;
+
+    const payload = JSON.stringify(message);
+    for (const socket of room.sockets.values()) {
+      socket.data.participantId = undefined;
+      socket.data.meetingId = undefined;
+      socket.send(payload);
+      socket.close();
+    }
+
+    room.unsubscribe();
+    this.rooms.delete(meetingId);
+  }
+
   getRoomSockets(meetingId: string): SocketWithContext[] {
     const room = this.rooms.get(meetingId);
     return room ? Array.from(room.sockets.values()) : [];
@@ -49,8 +176,10 @@ export class WSState {
     message: any,
     excludeParticipantId?: string
   ) {
+    const room = this.rooms.get(meetingId);
     const sockets = this.getRoomSockets(meetingId);
     const payload = JSON.stringify(message);
+    const rosterEvent = rosterEvents.has(message.type);
 
     for (const socket of sockets) {
       if (
@@ -59,8 +188,90 @@ export class WSState {
       ) {
         continue;
       }
+      if (rosterEvent && !can(socket.data.perms, 'seeRoster')) continue;
       socket.send(payload);
     }
+
+    // Replayed on room.resume, so the same events are withheld
+    for (const [participantId, perms] of room?.detached ?? []) {
+      if (participantId === excludeParticipantId) continue;
+      if (rosterEvent && !can(perms, 'seeRoster')) continue;
+      this.bufferFor(participantId, message);
+    }
+  }
+
+  // Send a message to one participant, wherever in the cluster it is connected.
+  // Resolves to false when the participant is not in the room.
+  async sendToParticipant(
+    meetingId: string,
+    participantId: string,
+    message?: any,
+    options: {
+      evict?: boolean;
+      role?: ParticipantRole;
+      perms?: Capability[];
+    } = {}
+  ): Promise<boolean> {
+    const envelope = { meetingId, participantId, message, ...options };
+
+    if (
+      this.getSocket(meetingId, participantId) ||
+      this.isDetached(meetingId, participantId)
+    ) {
+      this.deliver(envelope);
+      return true;
+    }
+
+    const entry = await roomRoster.get(meetingId, participantId);
+    if (!entry || entry.nodeId === instanceId) {
+      return false;
+    }
+
+    await publishToNode(entry.nodeId, envelope);
+    return true;
+  }
+
+  private deliver(envelope: Omit<DirectedEnvelope, 'origin'>) {
+    const { meetingId, participantId, message, evict, lobby, role, perms } =
+      envelope;
+    if (lobby) {
+      this.lobbyHandler?.({ meetingId, participantId, decision: lobby });
+      return;
+    }
+
+    const socket = this.getSocket(meetingId, participantId);
+    if (!socket) {
+      const detached = this.rooms.get(meetingId)?.detached;
+      if (detached?.has(participantId)) {
+        // The resumed socket reads its grants from the roster; these only
+        // decide which buffered events it will be shown
+        if (role) detached.set(participantId, perms ?? []);
+        if (message) this.bufferFor(participantId, message);
+        if (evict) this.removeFromRoom(meetingId, participantId);
+      }
+      return;
+    }
+
+    if (role) {
+      socket.data.role = role;
+      socket.data.perms = perms ?? [];
+    }
+
+    if (message) {
+      socket.send(JSON.stringify(message));
+    }
+
+    if (evict) {
+      this.removeFromRoom(meetingId, participantId);
+      socket.data.participantId = undefined;
+      socket.data.meetingId = undefined;
+    }
+  }
+
+  private bufferFor(participantId: string, message: any) {
+    resumeStore
+      .buffer(participantId, message)
+      .catch(err => console.error('Failed to buffer resume event:', err));
   }
 }
 
@@ -4,17 +4,22 @@ import type {
   DeviceState,
   MediaState,
 } from '../common/types';
+import type { Capability } from '../common/permissions';
+import type { MeetingSettingsPatch } from '../meetings/settings';
 import type { ServerWebSocket } from 'bun';
 
 export type WSContext = {
   authenticated: boolean;
+  lastSeenAt: number; // ms timestamp of the last message from the client
   userId?: string;
   participantId?: string;
   meetingId?: string;
   role?: 'host' | 'cohost' | 'guest';
+  perms?: Capability[]; // grants from the room token, kept in sync on role changes
   displayName?: string;
   mediaState?: MediaState;
   handRaised?: boolean;
+  lobby?: { meetingId: string; participantId: string }; // waiting for admission
 };
 
 export type SocketWithContext = ServerWebSocket<WSContext>;
@@ -22,15 +27,26 @@ export type SocketWithContext = ServerWebSocket<WSContext>;
 export type RoomState = {
   meetingId: string;
   sockets: Map<string, SocketWithContext>; // participantId -> socket
+  detached: Map<string, Capability[]>; // participants waiting to resume after a drop -> grants
+  unsubscribe: () => void; // stops the Redis subscription for this meeting
+};
+
+export type LobbyDecision = {
+  meetingId: string;
+  participantId: string;
+  decision: 'admit' | 'reject' | 'end';
 };
 
 // WebSocket message types
+export type PingMessage = WSMessage<{}>;
 export type AuthenticateMessage = WSMessage<{ accessToken: string }>;
 export type RoomJoinMessage = WSMessage<{
   roomToken: string;
   device: DeviceState;
 }>;
 export type RoomLeaveMessage = WSMessage<{}>;
+export type RoomResumeMessage = WSMessage<{ resumeToken: string }>;
+export type RoomEndMessage = WSMessage<{}>;
 export type RTCSignalMessage = WSMessage<{
   to: string;
   type: 'offer' | 'answer' | 'ice';
@@ -38,11 +54,67 @@ export type RTCSignalMessage = WSMessage<{
   candidate?: any;
 }>;
 export type MediaUpdateMessage = WSMessage<Partial<MediaState>>;
-export type ChatSendMessage = WSMessage<{ text: string }>;
+export type ChatSendMessage = WSMessage<{
+  text: string;
+  to?: string | string[]; // participantId(s) for a direct message
+  audience?: 'everyone' | 'moderators';
+  replyTo?: string; // chat message id
+}>;
+export type ChatEditMessage = WSMessage<{ messageId: string; text: string }>;
+export type ChatDeleteMessage = WSMessage<{ messageId: string }>;
+export type ChatRedactMessage = WSMessage<{
+  messageId: string;
+  reason?: string;
+}>;
+export type ChatReactMessage = WSMessage<{
+  messageId: string;
+  emoji: string;
+}>;
+export type ChatUnreactMessage = WSMessage<{
+  messageId: string;
+  emoji: string;
+}>;
+export type ChatTypingMessage = WSMessage<{ typing?: boolean }>;
+export type ChatReadMessage = WSMessage<{ messageId: string }>;
 export type ReactionSendMessage = WSMessage<{ type: string }>;
 export type HandRaiseMessage = WSMessage<{}>;
 export type HandLowerMessage = WSMessage<{}>;
 export type ModerationMuteMessage = WSMessage<{ participantId: string }>;
-export type ModerationRemoveMessage = WSMessage<{ participantId: string }>;
+export type ModerationMuteAllMessage = WSMessage<{
+  exclude?: string[]; // participantIds to leave unmuted
+  lockMic?: boolean; // also stop guests from unmuting themselves
+}>;
+export type ModerationLockMicMessage = WSMessage<{ locked: boolean }>;
+export type ModerationDisableCamMessage = WSMessage<{ participantId: string }>;
+export type ModerationStopScreenMessage = WSMessage<{ participantId: string }>;
+export type ModerationSetRoleMessage = WSMessage<{
+  participantId: string;
+  role: 'cohost' | 'guest';
+}>;
+export type ModerationAssignRoleMessage = WSMessage<{
+  participantId: string;
+  roleId: string | null; // a custom role of the meeting, null to remove it
+}>;
+export type ModerationTransferHostMessage = WSMessage<{
+  participantId: string;
+}>;
+export type ModerationLockMessage = WSMessage<{}>;
+export type ModerationUpdateSettingsMessage = WSMessage<MeetingSettingsPatch>;
+export type ModerationUnlockMessage = WSMessage<{}>;
+export type ModerationRequestUnmuteMessage = WSMessage<{
+  participantId: string;
+}>;
+export type ModerationAnswerScreenMessage = WSMessage<{
+  participantId: string;
+  accept: boolean;
+}>;
+export type MediaAnswerUnmuteMessage = WSMessage<{ accept: boolean }>;
+export type MediaRequestScreenMessage = WSMessage<{}>;
+export type ModerationRemoveMessage = WSMessage<{
+  participantId: string;
+  ban?: boolean; // defaults to true; false lets them rejoin
+  reason?: string;
+}>;
 export type LobbyAdmitMessage = WSMessage<{ participantId: string }>;
+export type LobbyAdmitAllMessage = WSMessage<{}>;
 export type LobbyRejectMessage = WSMessage<{ participantId: string }>;
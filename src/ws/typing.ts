@@ -0,0 +1,74 @@
+import { env } from '../env';
+import { wsState } from './state';
+import { publishToMeeting } from './redis';
+
+type TypingEntry = {
+  lastBroadcastAt: number;
+  timer: ReturnType<typeof setTimeout>;
+};
+
+// Tracks who is typing on this node. A participant's socket lives on a single
+// node, so local timers are enough; changes reach the other nodes through
+// publishToMeeting. Repeated `chat.typing` within CHAT_TYPING_THROTTLE_MS only
+// push the timeout back, and typing stops by itself after
+// CHAT_TYPING_TIMEOUT_MS without a refresh.
+export class TypingTracker {
+  private typing = new Map<string, TypingEntry>();
+
+  async start(meetingId: string, participantId: string) {
+    const key = `${meetingId}:${participantId}`;
+    const entry = this.typing.get(key);
+    const now = Date.now();
+
+    if (entry) clearTimeout(entry.timer);
+
+    const timer = setTimeout(() => {
+      this.stop(meetingId, participantId).catch(error =>
+        console.error('Error expiring typing state:', error)
+      );
+    }, env.CHAT_TYPING_TIMEOUT_MS);
+
+    const throttled =
+      entry && now - entry.lastBroadcastAt < env.CHAT_TYPING_THROTTLE_MS;
+
+    this.typing.set(key, {
+      lastBroadcastAt: throttled ? entry.lastBroadcastAt : now,
+      timer,
+    });
+
+    if (!throttled) {
+      await this.broadcast(meetingId, participantId, true);
+    }
+  }
+
+  async stop(meetingId: string, participantId: string) {
+    const key = `${meetingId}:${participantId}`;
+    const entry = this.typing.get(key);
+    if (!entry) return;
+
+    clearTimeout(entry.timer);
+    this.typing.delete(key);
+
+    await this.broadcast(meetingId, participantId, false);
+  }
+
+  private async broadcast(
+    meetingId: string,
+    participantId: string,
+    typing: boolean
+  ) {
+    const typingChangedMessage = {
+      type: 'chat.typing.changed',
+      payload: {
+        participantId,
+        typing,
+        expiresInMs: typing ? env.CHAT_TYPING_TIMEOUT_MS : 0,
+      },
+    };
+
+    wsState.broadcastToRoom(meetingId, typingChangedMessage, participantId);
+    await publishToMeeting(meetingId, typingChangedMessage);
+  }
+}
+
+export const typingTracker = new TypingTracker();
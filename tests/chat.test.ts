@@ -0,0 +1,245 @@
+import { describe, it, expect, spyOn } from 'bun:test';
+import { resolveMentions } from '../src/chat/mentions';
+import { aggregateReactions } from '../src/chat/reactions';
+import { cursorPaginationSchema, toCursorPage } from '../src/common/pagination';
+import { useFakeRedis } from './helpers/fake-redis';
+import type { SocketWithContext } from '../src/ws/types';
+import type { Capability } from '../src/common/permissions';
+
+useFakeRedis();
+
+const { chatService } = await import('../src/chat/service');
+const { db } = await import('../src/db/client');
+const { meetingsService } = await import('../src/meetings/service');
+const { resolveMeetingSettings } = await import('../src/meetings/settings');
+const { handleChatSend, handleChatRead } =
+  await import('../src/ws/handlers/chat');
+const { participantsService } = await import('../src/participants/service');
+
+const fakeSocket = (perms: Capability[]) =>
+  ({
+    data: {
+      authenticated: true,
+      lastSeenAt: Date.now(),
+      participantId: 'p-1',
+      meetingId: 'm-1',
+      role: 'guest',
+      perms,
+    },
+    sent: [] as any[],
+    send(this: { sent: any[] }, payload: string) {
+      this.sent.push(JSON.parse(payload));
+    },
+  }) as unknown as SocketWithContext & { sent: any[] };
+
+const roster = [
+  { participantId: 'p-ann', displayName: 'Ann' },
+  { participantId: 'p-ann-lee', displayName: 'Ann Lee' },
+  { participantId: 'p-bob', displayName: 'Bob' },
+];
+
+describe('Chat Mentions', () => {
+  it('should resolve mentions case-insensitively', () => {
+    expect(resolveMentions('hey @bob, ping @ANN', roster).sort()).toEqual([
+      'p-ann',
+      'p-bob',
+    ]);
+  });
+
+  it('should prefer the longest matching display name', () => {
+    expect(resolveMentions('@Ann Lee can you check?', roster)).toEqual([
+      'p-ann-lee',
+    ]);
+  });
+
+  it('should ignore partial words and unknown names', () => {
+    expect(resolveMentions('@Bobby and @carol', roster)).toEqual([]);
+    expect(resolveMentions('mail bob@example.com', roster)).toEqual([]);
+  });
+
+  it('should ignore names glued to a preceding word', () => {
+    expect(resolveMentions('write to x@bob.com', roster)).toEqual([]);
+    expect(resolveMentions('(@bob) and @ann.', roster).sort()).toEqual([
+      'p-ann',
+      'p-bob',
+    ]);
+  });
+});
+
+describe('Chat Reactions', () => {
+  it('should group reactions by emoji in first-use order', () => {
+    expect(
+      aggregateReactions([
+        { emoji: '👍', participantId: 'p-1' },
+        { emoji: '🎉', participantId: 'p-2' },
+        { emoji: '👍', participantId: 'p-2' },
+      ])
+    ).toEqual([
+      { emoji: '👍', count: 2, participantIds: ['p-1', 'p-2'] },
+      { emoji: '🎉', count: 1, participantIds: ['p-2'] },
+    ]);
+  });
+});
+
+describe('Chat History Pagination', () => {
+  const rows = (...ids: string[]) => ids.map(id => ({ id }));
+
+  it('should default and bound the page size', () => {
+    expect(cursorPaginationSchema.parse({})).toEqual({ limit: 50 });
+    expect(
+      cursorPaginationSchema.parse({ before: '01J', limit: '20' })
+    ).toEqual({ before: '01J', limit: 20 });
+    expect(cursorPaginationSchema.safeParse({ limit: '0' }).success).toBe(
+      false
+    );
+    expect(cursorPaginationSchema.safeParse({ limit: '101' }).success).toBe(
+      false
+    );
+  });
+
+  it('should return older pages oldest first with a cursor to continue', () => {
+    // Walking back from the newest message, one row past the limit
+    expect(toCursorPage(rows('05', '04', '03'), 2, false)).toEqual({
+      items: rows('04', '05'),
+      nextCursor: '04',
+    });
+    expect(toCursorPage(rows('02', '01'), 2, false)).toEqual({
+      items: rows('01', '02'),
+      nextCursor: null,
+    });
+  });
+
+  it('should return newer pages in order', () => {
+    expect(toCursorPage(rows('03', '04', '05'), 2, true)).toEqual({
+      items: rows('03', '04'),
+      nextCursor: '04',
+    });
+    expect(toCursorPage(rows('05'), 2, true)).toEqual({
+      items: rows('05'),
+      nextCursor: null,
+    });
+  });
+
+  it('should end on an empty or exactly full page', () => {
+    expect(toCursorPage([], 2, false)).toEqual({ items: [], nextCursor: null });
+    expect(toCursorPage(rows('04', '03'), 2, false)).toEqual({
+      items: rows('03', '04'),
+      nextCursor: null,
+    });
+  });
+
+  it('should reject a page size that is not a number', () => {
+    expect(cursorPaginationSchema.safeParse({ limit: 'ten' }).success).toBe(
+      false
+    );
+    expect(cursorPaginationSchema.safeParse({ limit: '2.5' }).success).toBe(
+      false
+    );
+  });
+
+  it('should read one row past the limit and walk back when both cursors are given', async () => {
+    const findMany = spyOn(db.query.chatMessages, 'findMany');
+    findMany.mockResolvedValue(rows('05', '04', '03') as any);
+
+    const viewer = { participantId: 'p-1', moderator: false };
+    const backwards = await chatService.findPage('m-1', viewer, {
+      before: '06',
+      after: '01',
+      limit: 2,
+    });
+    expect(findMany.mock.calls[0][0]).toMatchObject({ limit: 3 });
+    expect(backwards).toMatchObject({
+      messages: rows('04', '05'),
+      nextCursor: '04',
+    });
+
+    findMany.mockResolvedValue(rows('02', '03') as any);
+    const forwards = await chatService.findPage('m-1', viewer, {
+      after: '01',
+      limit: 2,
+    });
+    expect(forwards).toMatchObject({
+      messages: rows('02', '03'),
+      nextCursor: null,
+    });
+
+    findMany.mockRestore();
+  });
+});
+
+describe('Private Chat', () => {
+  const direct = {
+    type: 'chat.send' as const,
+    requestId: 'r-1',
+    payload: { text: 'psst', to: 'p-2' },
+  };
+
+  it('should refuse direct messages while private chat is off', async () => {
+    const getSettings = spyOn(meetingsService, 'getSettings');
+    getSettings.mockResolvedValue(
+      resolveMeetingSettings({ privateChat: false })
+    );
+    const create = spyOn(chatService, 'create');
+
+    const socket = fakeSocket(['chat']);
+    await handleChatSend(socket, direct);
+
+    expect(socket.sent).toEqual([
+      { type: 'error', requestId: 'r-1', error: 'Private chat is disabled' },
+    ]);
+    expect(create).not.toHaveBeenCalled();
+
+    getSettings.mockRestore();
+    create.mockRestore();
+  });
+});
+
+describe('Read Receipts', () => {
+  const read = (messageId: string) => ({
+    type: 'chat.read' as const,
+    requestId: 'r-1',
+    payload: { messageId },
+  });
+
+  it('should not move the read position back and ack the unread count', async () => {
+    const findMessage = spyOn(chatService, 'findById').mockResolvedValue({
+      id: '03',
+      meetingId: 'm-1',
+      participantId: 'p-2',
+      audience: 'everyone',
+      recipients: null,
+    } as any);
+    const findParticipant = spyOn(
+      participantsService,
+      'findById'
+    ).mockResolvedValue({ lastReadMessageId: '05' } as any);
+    const updateLastRead = spyOn(participantsService, 'updateLastRead');
+    const countUnread = spyOn(chatService, 'countUnread').mockResolvedValue(2);
+
+    const socket = fakeSocket(['chat']);
+    await handleChatRead(socket, read('03'));
+
+    expect(updateLastRead).not.toHaveBeenCalled();
+    expect(countUnread).toHaveBeenCalledWith(
+      'm-1',
+      { participantId: 'p-1', moderator: false },
+      '05'
+    );
+    expect(socket.sent).toEqual([
+      {
+        type: 'chat.read.ack',
+        requestId: 'r-1',
+        payload: { lastReadMessageId: '05', unread: 2 },
+      },
+    ]);
+
+    for (const spy of [
+      findMessage,
+      findParticipant,
+      updateLastRead,
+      countUnread,
+    ]) {
+      spy.mockRestore();
+    }
+  });
+});
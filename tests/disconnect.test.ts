@@ -0,0 +1,96 @@
+import { describe, it, expect, spyOn, beforeEach, afterAll } from 'bun:test';
+import { fakeRedis, useFakeRedis } from './helpers/fake-redis';
+import type { SocketWithContext } from '../src/ws/types';
+
+useFakeRedis();
+
+const { handleRoomDisconnect } = await import('../src/ws/handlers/room');
+const { roomRoster } = await import('../src/ws/roster');
+const { wsState } = await import('../src/ws/state');
+const { instanceId } = await import('../src/ws/redis');
+const { participantsService } = await import('../src/participants/service');
+const { env } = await import('../src/env');
+
+const updateLeftAt = spyOn(
+  participantsService,
+  'updateLeftAt'
+).mockResolvedValue(undefined as any);
+
+const fakeSocket = () =>
+  ({
+    data: {
+      authenticated: true,
+      lastSeenAt: Date.now(),
+      participantId: 'p-1',
+      meetingId: 'm-1',
+      role: 'guest',
+      perms: [],
+    },
+    send() {},
+    close() {},
+  }) as unknown as SocketWithContext;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const leftEvents = () =>
+  fakeRedis.published.filter(
+    ({ channel, message }) =>
+      channel === 'meeting:m-1' && message.message.type === 'participant.left'
+  );
+
+describe('Disconnect Grace Period', () => {
+  const { WS_DISCONNECT_GRACE_MS } = env;
+
+  beforeEach(async () => {
+    fakeRedis.reset();
+    fakeRedis.data.set(`node:${instanceId}:alive`, String(Date.now()));
+    updateLeftAt.mockClear();
+    env.WS_DISCONNECT_GRACE_MS = 20;
+
+    await roomRoster.upsert('m-1', {
+      participantId: 'p-1',
+      displayName: 'p-1',
+      role: 'guest',
+      customRoleId: null,
+      perms: [],
+      mediaState: { mic: 'on', cam: 'on', screen: 'off' },
+      handRaised: false,
+    });
+  });
+
+  afterAll(() => {
+    env.WS_DISCONNECT_GRACE_MS = WS_DISCONNECT_GRACE_MS;
+    updateLeftAt.mockRestore();
+  });
+
+  it('should hold a dropped participant for the grace period, then remove them', async () => {
+    const socket = fakeSocket();
+    wsState.addToRoom('m-1', 'p-1', socket);
+
+    handleRoomDisconnect(socket);
+
+    expect(await roomRoster.get('m-1', 'p-1')).not.toBeNull();
+    expect(leftEvents()).toEqual([]);
+
+    await wait(60);
+
+    expect(await roomRoster.get('m-1', 'p-1')).toBeNull();
+    expect(updateLeftAt).toHaveBeenCalledWith('p-1');
+    expect(leftEvents()).toHaveLength(1);
+  });
+
+  it('should keep a participant who reconnected within the grace period', async () => {
+    const socket = fakeSocket();
+    wsState.addToRoom('m-1', 'p-1', socket);
+
+    handleRoomDisconnect(socket);
+    wsState.addToRoom('m-1', 'p-1', fakeSocket());
+    await wait(60);
+
+    expect(await roomRoster.get('m-1', 'p-1')).not.toBeNull();
+    expect(updateLeftAt).not.toHaveBeenCalled();
+    expect(leftEvents()).toEqual([]);
+
+    wsState.removeFromRoom('m-1', 'p-1');
+  });
+});
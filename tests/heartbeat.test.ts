@@ -0,0 +1,85 @@
+import { describe, it, expect, mock, beforeEach, afterAll } from 'bun:test';
+import { fakeRedis, useFakeRedis } from './helpers/fake-redis';
+import type { SocketWithContext } from '../src/ws/types';
+
+useFakeRedis();
+
+const leaveRoom = mock(
+  async (_meetingId: string, _participantId: string) => {}
+);
+const leaveLobby = mock(async (_socket: SocketWithContext) => {});
+// Module mocks are shared by every test file, so keep the other exports and
+// put the real ones back afterwards
+const room = { ...(await import('../src/ws/handlers/room')) };
+const lobby = { ...(await import('../src/ws/handlers/lobby')) };
+mock.module('../src/ws/handlers/room', () => ({ ...room, leaveRoom }));
+mock.module('../src/ws/handlers/lobby', () => ({ ...lobby, leaveLobby }));
+afterAll(() => {
+  mock.module('../src/ws/handlers/room', () => room);
+  mock.module('../src/ws/handlers/lobby', () => lobby);
+});
+
+const { heartbeatSweeper } = await import('../src/ws/heartbeat');
+const { wsState } = await import('../src/ws/state');
+const { env } = await import('../src/env');
+
+const fakeSocket = (participantId: string, lastSeenAt: number) =>
+  ({
+    data: {
+      authenticated: true,
+      lastSeenAt,
+      participantId,
+      meetingId: 'm-1',
+    },
+    closed: false,
+    send() {},
+    close(this: { closed: boolean }) {
+      this.closed = true;
+    },
+  }) as unknown as SocketWithContext & { closed: boolean };
+
+describe('Heartbeat Sweeper', () => {
+  beforeEach(() => {
+    fakeRedis.reset();
+    leaveRoom.mockClear();
+    leaveLobby.mockClear();
+  });
+
+  it('should reap sockets that missed too many heartbeats', async () => {
+    const silentFor =
+      env.WS_HEARTBEAT_INTERVAL_MS * env.WS_HEARTBEAT_MAX_MISSED + 1000;
+    const dead = fakeSocket('p-1', Date.now() - silentFor);
+    const alive = fakeSocket('p-2', Date.now());
+    for (const socket of [dead, alive]) {
+      wsState.track(socket);
+      wsState.addToRoom('m-1', socket.data.participantId!, socket);
+    }
+
+    await heartbeatSweeper.sweep();
+
+    expect(dead.closed).toBe(true);
+    expect(dead.data.participantId).toBeUndefined();
+    expect(leaveRoom).toHaveBeenCalledWith('m-1', 'p-1');
+    expect(leaveLobby).toHaveBeenCalledTimes(1);
+    expect(wsState.getConnections()).toEqual([alive]);
+    expect(alive.closed).toBe(false);
+
+    wsState.untrack(alive);
+    wsState.removeFromRoom('m-1', 'p-1');
+    wsState.removeFromRoom('m-1', 'p-2');
+  });
+
+  it('should not tear down a participant who reconnected elsewhere', async () => {
+    const stale = fakeSocket('p-1', 0);
+    const replacement = fakeSocket('p-1', Date.now());
+    wsState.track(stale);
+    wsState.addToRoom('m-1', 'p-1', replacement);
+
+    await heartbeatSweeper.sweep();
+
+    expect(stale.closed).toBe(true);
+    expect(leaveRoom).not.toHaveBeenCalled();
+
+    wsState.removeFromRoom('m-1', 'p-1');
+  });
+});
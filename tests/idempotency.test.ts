@@ -0,0 +1,115 @@
+import { describe, it, expect, mock, beforeEach, afterAll } from 'bun:test';
+import { fakeRedis, useFakeRedis } from './helpers/fake-redis';
+import type { SocketWithContext } from '../src/ws/types';
+
+useFakeRedis();
+
+const { sendAck, sendError } = await import('../src/ws/reply');
+
+// Posts nothing; acks unless the text asks it to fail
+const handleChatSend = mock(async (socket: SocketWithContext, message: any) => {
+  if (message.payload.text === 'fail') {
+    sendError(socket, message.requestId, 'Failed to send message');
+    return;
+  }
+  await sendAck(socket, message, { messageId: 'c-1' });
+});
+// Module mocks are shared by every test file, so keep the other exports and
+// put the real ones back afterwards
+const chat = { ...(await import('../src/ws/handlers/chat')) };
+mock.module('../src/ws/handlers/chat', () => ({ ...chat, handleChatSend }));
+afterAll(() => {
+  mock.module('../src/ws/handlers/chat', () => chat);
+});
+
+const { dispatchMessage } = await import('../src/ws/router');
+
+const ctx = {
+  verifyAccessToken: async () => null,
+  verifyRoomToken: async () => null,
+};
+
+const fakeSocket = (userId?: string) =>
+  ({
+    data: {
+      authenticated: true,
+      lastSeenAt: Date.now(),
+      userId,
+      participantId: 'p-1',
+      meetingId: 'm-1',
+      role: 'guest',
+      perms: ['chat'],
+    },
+    sent: [] as any[],
+    send(this: { sent: any[] }, payload: string) {
+      this.sent.push(JSON.parse(payload));
+    },
+  }) as unknown as SocketWithContext & { sent: any[] };
+
+const send = (requestId: string, text = 'hi') => ({
+  type: 'chat.send',
+  requestId,
+  idempotencyKey: 'k-1',
+  payload: { text },
+});
+
+describe('Idempotency', () => {
+  beforeEach(() => {
+    fakeRedis.reset();
+    // Token buckets always have room; anything else is the release script
+    fakeRedis.evalHandler = (keys, args) => {
+      if (keys[0].startsWith('ratelimit:')) return [1, 0];
+      if (fakeRedis.data.get(keys[0]) !== args[0]) return 0;
+      fakeRedis.data.delete(keys[0]);
+      return 1;
+    };
+    handleChatSend.mockClear();
+  });
+
+  it('should answer a retried command with the original ack', async () => {
+    const socket = fakeSocket('u-1');
+
+    await dispatchMessage(socket, send('r-1'), ctx);
+    await dispatchMessage(socket, send('r-2'), ctx);
+
+    expect(handleChatSend).toHaveBeenCalledTimes(1);
+    expect(socket.sent).toEqual([
+      {
+        type: 'chat.send.ack',
+        requestId: 'r-1',
+        payload: { messageId: 'c-1' },
+      },
+      {
+        type: 'chat.send.ack',
+        requestId: 'r-2',
+        payload: { messageId: 'c-1' },
+      },
+    ]);
+  });
+
+  it("should not run a guest's retry twice", async () => {
+    const socket = fakeSocket();
+
+    await dispatchMessage(socket, send('r-1'), ctx);
+    await dispatchMessage(socket, send('r-2'), ctx);
+
+    expect(handleChatSend).toHaveBeenCalledTimes(1);
+    expect(socket.sent[1]).toMatchObject({
+      type: 'chat.send.ack',
+      requestId: 'r-2',
+    });
+  });
+
+  it('should let a command that was not acked be retried', async () => {
+    const socket = fakeSocket();
+
+    await dispatchMessage(socket, send('r-1', 'fail'), ctx);
+    await dispatchMessage(socket, send('r-2'), ctx);
+
+    expect(handleChatSend).toHaveBeenCalledTimes(2);
+    expect(socket.sent[1]).toMatchObject({
+      type: 'chat.send.ack',
+      requestId: 'r-2',
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect, mock } from 'bun:test';
+import { useFakeRedis } from './helpers/fake-redis';
+import type { SocketWithContext } from '../src/ws/types';
+
+useFakeRedis();
+
+const { handleRoomJoin } = await import('../src/ws/handlers/room');
+
+describe('Lobby', () => {
+  it('should not let a waiting socket join a second time', async () => {
+    const sent: any[] = [];
+    const socket = {
+      data: {
+        authenticated: true,
+        lastSeenAt: Date.now(),
+        lobby: { meetingId: 'm-1', participantId: 'p-1' },
+      },
+      send: (payload: string) => sent.push(JSON.parse(payload)),
+    } as unknown as SocketWithContext;
+    const verifyRoomToken = mock(async (_token: string) => null);
+
+    await handleRoomJoin(
+      socket,
+      {
+        type: 'room.join',
+        requestId: 'r-2',
+        payload: { roomToken: 't', device: { mic: true, cam: true } },
+      },
+      verifyRoomToken
+    );
+
+    expect(sent).toEqual([
+      {
+        type: 'error',
+        requestId: 'r-2',
+        error: 'Already waiting in the lobby',
+      },
+    ]);
+    expect(verifyRoomToken).not.toHaveBeenCalled();
+    expect(socket.data.lobby).toEqual({
+      meetingId: 'm-1',
+      participantId: 'p-1',
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import { fakeRedis, useFakeRedis } from './helpers/fake-redis';
+import type { SocketWithContext } from '../src/ws/types';
+import type { Capability } from '../src/common/permissions';
+
+useFakeRedis();
+
+const { mediaRequests } = await import('../src/ws/requests');
+const { withSessionGrants } = await import('../src/ws/roster');
+const { roomControls } = await import('../src/ws/controls');
+const { handleMediaAnswerUnmute } = await import('../src/ws/handlers/requests');
+
+const request = (
+  expiresInMs: number,
+  kind: 'screen' | 'unmute' = 'screen'
+) => ({
+  kind,
+  participantId: 'p-1',
+  requestedBy: 'p-1',
+  requestedAt: new Date().toISOString(),
+  expiresAt: new Date(Date.now() + expiresInMs).toISOString(),
+});
+
+// The store's compare-and-delete script
+const removeIfUnchanged = (keys: string[], args: string[]) => {
+  const fields = fakeRedis.data.get(keys[0]) as Map<string, string>;
+  if (fields?.get(args[0]) !== args[1]) return 0;
+  fields.delete(args[0]);
+  return 1;
+};
+
+describe('Media Requests', () => {
+  beforeEach(() => {
+    fakeRedis.reset();
+    fakeRedis.evalHandler = removeIfUnchanged;
+  });
+
+  it('should let only one of two concurrent requests through', async () => {
+    const opened = await Promise.all([
+      mediaRequests.open('m-1', request(60_000)),
+      mediaRequests.open('m-1', request(60_000)),
+    ]);
+
+    expect(opened.sort()).toEqual([false, true]);
+  });
+
+  it('should replace a request that expired without being cleaned up', async () => {
+    await mediaRequests.open('m-1', request(-1));
+
+    expect(await mediaRequests.open('m-1', request(60_000))).toBe(true);
+    expect(await mediaRequests.get('m-1', 'screen', 'p-1')).not.toBeNull();
+  });
+
+  it('should hand a request to a single taker', async () => {
+    await mediaRequests.open('m-1', request(60_000));
+
+    const taken = await Promise.all([
+      mediaRequests.take('m-1', 'screen', 'p-1'),
+      mediaRequests.take('m-1', 'screen', 'p-1'),
+    ]);
+    expect(taken.filter(Boolean)).toHaveLength(1);
+  });
+
+  it('should leave an expired request to its expiry', async () => {
+    await mediaRequests.open('m-1', request(-1));
+
+    expect(await mediaRequests.take('m-1', 'screen', 'p-1')).toBeNull();
+    expect(
+      await mediaRequests.take('m-1', 'screen', 'p-1', { expired: true })
+    ).not.toBeNull();
+  });
+
+  it('should keep session grants on top of the role capabilities', () => {
+    const entry = { grants: ['shareScreen'] } as Parameters<
+      typeof withSessionGrants
+    >[1];
+
+    expect(withSessionGrants(['chat', 'react'], entry)).toEqual([
+      'chat',
+      'react',
+      'shareScreen',
+    ]);
+    expect(withSessionGrants(['shareScreen'], entry)).toEqual(['shareScreen']);
+    expect(withSessionGrants(['chat'], null)).toEqual(['chat']);
+  });
+});
+
+describe('Unmute Answers', () => {
+  const fakeSocket = (perms: Capability[]) =>
+    ({
+      data: {
+        authenticated: true,
+        lastSeenAt: Date.now(),
+        participantId: 'p-1',
+        meetingId: 'm-1',
+        role: 'guest',
+        perms,
+      },
+      sent: [] as any[],
+      send(this: { sent: any[] }, payload: string) {
+        this.sent.push(JSON.parse(payload));
+      },
+    }) as unknown as SocketWithContext & { sent: any[] };
+
+  const answer = (accept: boolean) => ({
+    type: 'media.answerUnmute' as const,
+    requestId: 'r-1',
+    payload: { accept },
+  });
+
+  beforeEach(async () => {
+    fakeRedis.reset();
+    fakeRedis.evalHandler = removeIfUnchanged;
+    await mediaRequests.open('m-1', request(60_000, 'unmute'));
+  });
+
+  it('should not turn the mic on without the unmute capability', async () => {
+    const socket = fakeSocket([]);
+
+    await handleMediaAnswerUnmute(socket, answer(true));
+
+    expect(socket.sent[0].error).toBe('You are not allowed to unmute');
+    expect(await mediaRequests.get('m-1', 'unmute', 'p-1')).not.toBeNull();
+  });
+
+  it('should not turn the mic on while microphones are locked', async () => {
+    await roomControls.update('m-1', { micLocked: true });
+    const socket = fakeSocket(['unmute']);
+
+    await handleMediaAnswerUnmute(socket, answer(true));
+
+    expect(socket.sent[0].error).toBe('Microphone is locked by the host');
+    expect(await mediaRequests.get('m-1', 'unmute', 'p-1')).not.toBeNull();
+  });
+
+  it('should still let a locked participant decline', async () => {
+    await roomControls.update('m-1', { micLocked: true });
+    const socket = fakeSocket([]);
+
+    await handleMediaAnswerUnmute(socket, answer(false));
+
+    expect(socket.sent[socket.sent.length - 1].type).toBe(
+      'media.answerUnmute.ack'
+    );
+    expect(await mediaRequests.get('m-1', 'unmute', 'p-1')).toBeNull();
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, spyOn, beforeEach, afterAll } from 'bun:test';
+import { useFakeRedis } from './helpers/fake-redis';
+
+useFakeRedis();
+
+const { meetingsService } = await import('../src/meetings/service');
+const { bansService } = await import('../src/bans/service');
+const { db } = await import('../src/db/client');
+
+const findMeeting = spyOn(db.query.meetings, 'findFirst');
+const findParticipant = spyOn(db.query.participants, 'findFirst');
+const findBan = spyOn(bansService, 'findMatch').mockResolvedValue(
+  undefined as any
+);
+
+const lockedMeeting = {
+  id: 'm-1',
+  hostId: 'u-host',
+  endedAt: null,
+  lockedAt: new Date(),
+};
+
+const participantRow = (role: string) => ({
+  id: 'p-1',
+  meetingId: 'm-1',
+  userId: 'u-1',
+  role,
+});
+
+describe('Meeting Lock', () => {
+  beforeEach(() => {
+    findMeeting.mockResolvedValue(lockedMeeting as any);
+    findParticipant.mockResolvedValue(undefined as any);
+  });
+
+  afterAll(() => {
+    findMeeting.mockRestore();
+    findParticipant.mockRestore();
+    findBan.mockRestore();
+  });
+
+  it('should keep newcomers out', async () => {
+    await expect(
+      meetingsService.canUserJoin('m-1', 'u-1')
+    ).rejects.toMatchObject({
+      type: 'room/locked',
+    });
+    await expect(meetingsService.canUserJoin('m-1')).rejects.toMatchObject({
+      type: 'room/locked',
+    });
+  });
+
+  it('should give a new room token to a participant still in the room', async () => {
+    // Reconnecting after the first room token expired
+    findParticipant.mockResolvedValue(participantRow('guest') as any);
+
+    expect(
+      await meetingsService.canUserJoin(
+        'm-1',
+        'u-1',
+        undefined,
+        async participantId => participantId === 'p-1'
+      )
+    ).toBe(true);
+  });
+
+  it('should keep out participants who already left', async () => {
+    findParticipant.mockResolvedValue(participantRow('guest') as any);
+
+    await expect(
+      meetingsService.canUserJoin('m-1', 'u-1', undefined, async () => false)
+    ).rejects.toMatchObject({ type: 'room/locked' });
+  });
+
+  it('should let the host and cohosts in', async () => {
+    expect(await meetingsService.canUserJoin('m-1', 'u-host')).toBe(true);
+
+    findParticipant.mockResolvedValue(participantRow('cohost') as any);
+    expect(await meetingsService.canUserJoin('m-1', 'u-1')).toBe(true);
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect, spyOn, afterEach } from 'bun:test';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import {
+  defaultMeetingSettings,
+  resolveMeetingSettings,
+  isAutoAdmitted,
+} from '../src/meetings/settings';
+import { updateMeetingSettingsDto } from '../src/meetings/dto';
+import { useFakeRedis } from './helpers/fake-redis';
+
+useFakeRedis();
+
+const { meetingsService } = await import('../src/meetings/service');
+const { db } = await import('../src/db/client');
+
+describe('Meeting Settings', () => {
+  it('should fill missing settings with defaults', () => {
+    expect(resolveMeetingSettings(null)).toEqual(defaultMeetingSettings);
+    expect(resolveMeetingSettings({ waitingRoom: true })).toEqual({
+      ...defaultMeetingSettings,
+      waitingRoom: true,
+    });
+  });
+
+  it('should auto-admit according to the policy', () => {
+    const settings = resolveMeetingSettings({
+      waitingRoom: true,
+      autoAdmit: 'domains',
+      autoAdmitDomains: ['example.com'],
+    });
+
+    expect(
+      isAutoAdmitted(settings, { email: 'a@Example.com', invited: false })
+    ).toBe(true);
+    expect(
+      isAutoAdmitted(settings, { email: 'a@other.com', invited: false })
+    ).toBe(false);
+    expect(isAutoAdmitted(settings, { email: null, invited: true })).toBe(true);
+    expect(
+      isAutoAdmitted(
+        { ...settings, autoAdmit: 'signedIn' },
+        { email: null, invited: false }
+      )
+    ).toBe(false);
+  });
+
+  it('should normalize auto-admit domains', () => {
+    expect(
+      updateMeetingSettingsDto.parse({ autoAdmitDomains: [' Example.COM '] })
+    ).toEqual({ autoAdmitDomains: ['example.com'] });
+  });
+
+  it('should validate host toggles', () => {
+    expect(
+      updateMeetingSettingsDto.safeParse({
+        chatEnabled: false,
+        screenShare: 'hosts',
+        maxParticipants: 50,
+      }).success
+    ).toBe(true);
+    expect(
+      updateMeetingSettingsDto.safeParse({ maxParticipants: null }).success
+    ).toBe(true);
+    expect(
+      updateMeetingSettingsDto.safeParse({ maxParticipants: 1 }).success
+    ).toBe(false);
+    expect(
+      updateMeetingSettingsDto.safeParse({ screenShare: 'guests' }).success
+    ).toBe(false);
+  });
+
+  it('should keep stored choices when filling in defaults', () => {
+    const settings = resolveMeetingSettings({
+      privateChat: false,
+      maxParticipants: 10,
+    });
+
+    expect(settings.privateChat).toBe(false);
+    expect(settings.maxParticipants).toBe(10);
+    expect(settings.chatEnabled).toBe(defaultMeetingSettings.chatEnabled);
+  });
+
+  it('should validate the private chat toggle', () => {
+    expect(
+      updateMeetingSettingsDto.safeParse({ privateChat: false }).success
+    ).toBe(true);
+    expect(
+      updateMeetingSettingsDto.safeParse({ privateChat: 'no' }).success
+    ).toBe(false);
+  });
+
+  it('should reject unknown settings in updates', () => {
+    expect(
+      updateMeetingSettingsDto.safeParse({ waitingRoom: true }).success
+    ).toBe(true);
+    expect(updateMeetingSettingsDto.safeParse({ unknown: 1 }).success).toBe(
+      false
+    );
+  });
+});
+
+// Answers the settings update with the given rows and records what was set
+const stubUpdate = (rows: { settings: unknown }[]) => {
+  const assigned: any[] = [];
+  const update = spyOn(db, 'update').mockImplementation((() => ({
+    set(values: unknown) {
+      assigned.push(values);
+      return this;
+    },
+    where() {
+      return this;
+    },
+    returning: async () => rows,
+  })) as any);
+  return { assigned, update };
+};
+
+describe('Meeting Settings Updates', () => {
+  let stub: ReturnType<typeof stubUpdate>;
+
+  afterEach(() => stub.update.mockRestore());
+
+  it('should merge the patch into the stored settings in one statement', async () => {
+    stub = stubUpdate([{ settings: { waitingRoom: true, chatEnabled: true } }]);
+
+    const settings = await meetingsService.updateSettings('m-1', {
+      chatEnabled: true,
+    });
+
+    // Only the patch is sent, not the resolved defaults
+    const query = new PgDialect().sqlToQuery(stub.assigned[0].settings);
+    expect(query.sql).toContain('||');
+    expect(query.params).toEqual([JSON.stringify({ chatEnabled: true })]);
+    expect(settings).toEqual({
+      ...defaultMeetingSettings,
+      waitingRoom: true,
+      chatEnabled: true,
+    });
+  });
+
+  it('should report a missing meeting', async () => {
+    stub = stubUpdate([]);
+
+    await expect(
+      meetingsService.updateSettings('m-1', { chatEnabled: true })
+    ).rejects.toMatchObject({ type: 'meeting/not-found' });
+  });
+});
@@ -0,0 +1,199 @@
+import { describe, it, expect, spyOn, beforeEach, afterAll } from 'bun:test';
+import { fakeRedis, useFakeRedis } from './helpers/fake-redis';
+import type { SocketWithContext } from '../src/ws/types';
+import type { Capability } from '../src/common/permissions';
+import type { ParticipantRole } from '../src/common/types';
+
+useFakeRedis();
+
+const {
+  handleModerationRemove,
+  handleModerationMuteAll,
+  handleModerationTransferHost,
+} = await import('../src/ws/handlers/moderation');
+const { handleMediaUpdate } = await import('../src/ws/handlers/media');
+const { roomControls } = await import('../src/ws/controls');
+const { roomRoster } = await import('../src/ws/roster');
+const { wsState } = await import('../src/ws/state');
+const { instanceId } = await import('../src/ws/redis');
+const { bansService } = await import('../src/bans/service');
+const { participantsService } = await import('../src/participants/service');
+const { meetingsService } = await import('../src/meetings/service');
+
+const createBan = spyOn(bansService, 'create').mockResolvedValue({} as any);
+const updateLeftAt = spyOn(
+  participantsService,
+  'updateLeftAt'
+).mockResolvedValue(undefined as any);
+
+type FakeSocket = SocketWithContext & { sent: any[] };
+
+const fakeSocket = (participantId: string, perms: Capability[]) =>
+  ({
+    data: {
+      authenticated: true,
+      lastSeenAt: Date.now(),
+      participantId,
+      meetingId: 'm-1',
+      role: 'guest',
+      perms,
+    },
+    sent: [] as any[],
+    send(this: { sent: any[] }, payload: string) {
+      this.sent.push(JSON.parse(payload));
+    },
+    close() {},
+  }) as unknown as FakeSocket;
+
+// A participant of this node, optionally with a live socket
+const join = async (
+  participantId: string,
+  role: ParticipantRole,
+  socket?: FakeSocket
+) => {
+  await roomRoster.upsert('m-1', {
+    participantId,
+    displayName: participantId,
+    role,
+    customRoleId: null,
+    perms: [],
+    mediaState: { mic: 'on', cam: 'on', screen: 'off' },
+    handRaised: false,
+  });
+  if (socket) wsState.addToRoom('m-1', participantId, socket);
+};
+
+// The roster's compare-and-swap script
+const swapEntry = (keys: string[], args: string[]) => {
+  const fields = fakeRedis.data.get(keys[0]) as Map<string, string>;
+  if (fields.get(args[0]) !== args[1]) return 0;
+  fields.set(args[0], args[2]);
+  return 1;
+};
+
+const remove = (participantId: string) => ({
+  type: 'moderation.remove' as const,
+  requestId: 'r-1',
+  payload: { participantId, ban: true, reason: 'Spam' },
+});
+
+describe('Moderation', () => {
+  const moderator = fakeSocket('p-mod', ['moderate']);
+
+  beforeEach(() => {
+    fakeRedis.reset();
+    fakeRedis.data.set(`node:${instanceId}:alive`, String(Date.now()));
+    fakeRedis.evalHandler = swapEntry;
+    moderator.sent = [];
+    createBan.mockClear();
+  });
+
+  afterAll(() => {
+    createBan.mockRestore();
+    updateLeftAt.mockRestore();
+  });
+
+  it('should ban a removed participant once they are out', async () => {
+    const target = fakeSocket('p-2', []);
+    await join('p-2', 'guest', target);
+
+    await handleModerationRemove(moderator, remove('p-2'));
+
+    expect(target.sent[0]).toMatchObject({
+      type: 'room.kicked',
+      payload: { by: 'p-mod', banned: true },
+    });
+    expect(createBan).toHaveBeenCalledWith('m-1', 'p-2', 'p-mod', 'Spam');
+    expect(moderator.sent[0].type).toBe('moderation.remove.ack');
+
+    wsState.removeFromRoom('m-1', 'p-2');
+  });
+
+  it('should not ban a participant who could not be removed', async () => {
+    // In the roster, but no socket on this node to evict
+    await join('p-2', 'guest');
+
+    await handleModerationRemove(moderator, remove('p-2'));
+
+    expect(createBan).not.toHaveBeenCalled();
+    expect(moderator.sent[0].error).toBe('Participant not found');
+  });
+
+  it('should not remove or ban the host', async () => {
+    const host = fakeSocket('p-host', []);
+    await join('p-host', 'host', host);
+
+    await handleModerationRemove(moderator, remove('p-host'));
+
+    expect(host.sent).toEqual([]);
+    expect(createBan).not.toHaveBeenCalled();
+    expect(moderator.sent[0].error).toBe('The host cannot be moderated');
+
+    wsState.removeFromRoom('m-1', 'p-host');
+  });
+
+  it('should mute everyone but the host', async () => {
+    const host = fakeSocket('p-host', []);
+    const guest = fakeSocket('p-2', []);
+    await join('p-host', 'host', host);
+    await join('p-2', 'guest', guest);
+
+    await handleModerationMuteAll(moderator, {
+      type: 'moderation.muteAll',
+      requestId: 'r-1',
+      payload: {},
+    });
+
+    expect(moderator.sent[0].payload).toEqual({ participantIds: ['p-2'] });
+    expect((await roomRoster.get('m-1', 'p-host'))?.mediaState.mic).toBe('on');
+    expect((await roomRoster.get('m-1', 'p-2'))?.mediaState.mic).toBe('off');
+
+    wsState.removeFromRoom('m-1', 'p-host');
+    wsState.removeFromRoom('m-1', 'p-2');
+  });
+
+  it('should keep guests from unmuting themselves while microphones are locked', async () => {
+    await roomControls.update('m-1', { micLocked: true });
+    const unmute = {
+      type: 'media.update' as const,
+      requestId: 'r-2',
+      payload: { mic: 'on' as const },
+    };
+
+    const guest = fakeSocket('p-2', ['unmute']);
+    await join('p-2', 'guest');
+    await handleMediaUpdate(guest, unmute);
+    expect(guest.sent[0].error).toBe('Microphone is locked by the host');
+
+    // Moderators keep their own mic
+    const cohost = fakeSocket('p-mod', ['moderate', 'unmute']);
+    await join('p-mod', 'cohost');
+    await handleMediaUpdate(cohost, unmute);
+    expect(cohost.sent[0].type).toBe('media.update.ack');
+  });
+
+  it('should only let the host transfer the host role', async () => {
+    const findMeeting = spyOn(meetingsService, 'findById').mockResolvedValue({
+      id: 'm-1',
+      hostId: 'u-host',
+    } as any);
+    const transfer = spyOn(meetingsService, 'transferHost');
+    const cohost = fakeSocket('p-mod', ['moderate', 'manageRoles']);
+    cohost.data.userId = 'u-cohost';
+    await join('p-2', 'guest');
+
+    await handleModerationTransferHost(cohost, {
+      type: 'moderation.transferHost',
+      requestId: 'r-1',
+      payload: { participantId: 'p-2' },
+    });
+
+    expect(cohost.sent[0].error).toBe(
+      'Only the host can transfer the host role'
+    );
+    expect(transfer).not.toHaveBeenCalled();
+
+    findMeeting.mockRestore();
+    transfer.mockRestore();
+  });
+});
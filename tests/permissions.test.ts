@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  capabilities,
+  participationCapabilities,
+  defaultRoleCapabilities,
+  resolveCapabilities,
+  parseCapabilities,
+  can,
+} from '../src/common/permissions';
+import { createMeetingRoleDto } from '../src/roles/dto';
+
+describe('Permissions', () => {
+  it('should give the host every capability', () => {
+    expect(resolveCapabilities('host', { cohost: [], guest: [] })).toEqual([
+      ...capabilities,
+    ]);
+  });
+
+  it('should resolve other roles from the configured grants', () => {
+    expect(resolveCapabilities('cohost')).toEqual([
+      ...participationCapabilities,
+      ...defaultRoleCapabilities.cohost,
+    ]);
+    expect(
+      resolveCapabilities('guest', { cohost: [], guest: ['invite'] })
+    ).toEqual([...participationCapabilities, 'invite']);
+  });
+
+  it('should let a custom role replace the built-in grants', () => {
+    expect(resolveCapabilities('guest', undefined, ['chat', 'react'])).toEqual([
+      'chat',
+      'react',
+    ]);
+    expect(resolveCapabilities('cohost', undefined, [])).toEqual([]);
+    expect(resolveCapabilities('host', undefined, [])).toEqual([
+      ...capabilities,
+    ]);
+  });
+
+  it('should reject custom roles named like built-in ones', () => {
+    expect(
+      createMeetingRoleDto.safeParse({ name: 'presenter', capabilities: [] })
+        .success
+    ).toBe(true);
+    expect(
+      createMeetingRoleDto.safeParse({ name: 'Host', capabilities: [] }).success
+    ).toBe(false);
+    expect(
+      createMeetingRoleDto.safeParse({
+        name: 'attendee',
+        capabilities: ['fly'],
+      }).success
+    ).toBe(false);
+  });
+
+  it('should drop unknown capabilities from tokens', () => {
+    expect(parseCapabilities(['moderate', 'fly', 3])).toEqual(['moderate']);
+    expect(parseCapabilities('moderate')).toEqual([]);
+  });
+
+  it('should check grants', () => {
+    expect(can(['admit'], 'admit')).toBe(true);
+    expect(can(['admit'], 'moderate')).toBe(false);
+    expect(can(undefined, 'admit')).toBe(false);
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, mock, beforeEach, afterAll } from 'bun:test';
+import { fakeRedis, useFakeRedis } from './helpers/fake-redis';
+import type { SocketWithContext } from '../src/ws/types';
+
+useFakeRedis();
+
+const muteParticipant = mock(async (..._args: unknown[]) => true);
+const removeParticipant = mock(async (..._args: unknown[]) => true);
+// Module mocks are shared by every test file, so keep the other exports and
+// put the real ones back afterwards
+const moderation = { ...(await import('../src/ws/handlers/moderation')) };
+mock.module('../src/ws/handlers/moderation', () => ({
+  ...moderation,
+  muteParticipant,
+  removeParticipant,
+}));
+
+afterAll(() => {
+  mock.module('../src/ws/handlers/moderation', () => moderation);
+});
+
+const { defaultRateLimits, mergeRateLimits, rateLimiter } =
+  await import('../src/ws/rate-limit');
+const { env } = await import('../src/env');
+
+const fakeSocket = (data: Partial<SocketWithContext['data']>) =>
+  ({ data }) as SocketWithContext;
+
+// Records the buckets taken from and answers with the given results
+const takeTokens = (...results: [number, number][]) => {
+  const taken: string[][] = [];
+  fakeRedis.evalHandler = (keys, args) => {
+    taken.push([...keys, ...args.slice(0, 2)]);
+    return results.shift() ?? [1, 0];
+  };
+  return taken;
+};
+
+describe('Rate Limit Configuration', () => {
+  it('should use the defaults without overrides', () => {
+    expect(mergeRateLimits(undefined)).toBe(defaultRateLimits);
+  });
+
+  it('should replace the rules of overridden message types', () => {
+    const limits = mergeRateLimits(
+      JSON.stringify({
+        'chat.send': { participant: { capacity: 1, refillPerSec: 1 } },
+        'room.custom': { room: { capacity: 2, refillPerSec: 1 } },
+      })
+    );
+
+    expect(limits['chat.send']).toEqual({
+      participant: { capacity: 1, refillPerSec: 1 },
+    });
+    expect(limits['room.custom']).toEqual({
+      room: { capacity: 2, refillPerSec: 1 },
+    });
+    expect(limits['*']).toEqual(defaultRateLimits['*']);
+  });
+
+  it('should reject malformed overrides', () => {
+    expect(() =>
+      mergeRateLimits(JSON.stringify({ '*': { participant: { capacity: 0 } } }))
+    ).toThrow();
+  });
+});
+
+describe('Rate Limiter', () => {
+  const { WS_RATE_LIMIT_STRIKES, WS_RATE_LIMIT_PENALTY } = env;
+  afterAll(() =>
+    Object.assign(env, { WS_RATE_LIMIT_STRIKES, WS_RATE_LIMIT_PENALTY })
+  );
+
+  beforeEach(() => {
+    fakeRedis.reset();
+    muteParticipant.mockClear();
+    removeParticipant.mockClear();
+  });
+
+  it('should take from the sender and room buckets of the message type', async () => {
+    const taken = takeTokens();
+    const socket = fakeSocket({ meetingId: 'm-1', participantId: 'p-1' });
+
+    expect(await rateLimiter.check(socket, 'chat.send')).toEqual({
+      allowed: true,
+    });
+    expect(taken).toEqual([
+      ['ratelimit:chat.send:p:p-1', '5', '1'],
+      ['ratelimit:chat.send:m:m-1', '30', '10'],
+    ]);
+  });
+
+  it('should fall back to the default rule and the user outside a room', async () => {
+    const taken = takeTokens();
+
+    await rateLimiter.check(fakeSocket({ userId: 'u-1' }), 'room.join');
+    expect(taken).toEqual([['ratelimit:room.join:p:u-1', '30', '10']]);
+  });
+
+  it('should stop at the first empty bucket', async () => {
+    const taken = takeTokens([0, 800]);
+    const socket = fakeSocket({ meetingId: 'm-1', participantId: 'p-1' });
+
+    expect(await rateLimiter.check(socket, 'chat.send')).toEqual({
+      allowed: false,
+      retryAfterMs: 800,
+    });
+    expect(taken).toHaveLength(1);
+  });
+
+  it('should apply the penalty once the strikes add up', async () => {
+    env.WS_RATE_LIMIT_STRIKES = 2;
+    env.WS_RATE_LIMIT_PENALTY = 'mute';
+    const socket = fakeSocket({ meetingId: 'm-1', participantId: 'p-1' });
+
+    await rateLimiter.strike(socket);
+    expect(muteParticipant).not.toHaveBeenCalled();
+
+    await rateLimiter.strike(socket);
+    expect(muteParticipant).toHaveBeenCalledWith('m-1', 'p-1', 'system');
+
+    // Counting starts over after a penalty
+    await rateLimiter.strike(socket);
+    expect(muteParticipant).toHaveBeenCalledTimes(1);
+  });
+
+  it('should remove the participant when the penalty is a kick', async () => {
+    env.WS_RATE_LIMIT_STRIKES = 1;
+    env.WS_RATE_LIMIT_PENALTY = 'kick';
+
+    await rateLimiter.strike(
+      fakeSocket({ meetingId: 'm-1', participantId: 'p-1' })
+    );
+    expect(removeParticipant).toHaveBeenCalledWith(
+      'm-1',
+      'p-1',
+      'system',
+      'Removed for flooding the room'
+    );
+  });
+
+  it('should not count strikes without a penalty', async () => {
+    env.WS_RATE_LIMIT_STRIKES = 1;
+    env.WS_RATE_LIMIT_PENALTY = 'none';
+
+    await rateLimiter.strike(
+      fakeSocket({ meetingId: 'm-1', participantId: 'p-1' })
+    );
+    expect(fakeRedis.data.size).toBe(0);
+    expect(muteParticipant).not.toHaveBeenCalled();
+    expect(removeParticipant).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterAll } from 'bun:test';
+import { fakeRedis, useFakeRedis } from './helpers/fake-redis';
+
+useFakeRedis();
+
+const { roomRoster } = await import('../src/ws/roster');
+const { instanceId } = await import('../src/ws/redis');
+
+const rosterKey = 'meeting:m-1:roster';
+
+const entry = (participantId: string) => ({
+  participantId,
+  displayName: participantId,
+  role: 'guest' as const,
+  customRoleId: null,
+  perms: [],
+  mediaState: {
+    mic: 'on' as const,
+    cam: 'on' as const,
+    screen: 'off' as const,
+  },
+  handRaised: false,
+});
+
+// The roster's compare-and-swap script
+const swapEntry = (keys: string[], args: string[]) => {
+  const fields = fakeRedis.data.get(keys[0]) as Map<string, string>;
+  if (fields.get(args[0]) !== args[1]) return 0;
+  fields.set(args[0], args[2]);
+  return 1;
+};
+
+describe('Room Roster', () => {
+  beforeEach(() => {
+    fakeRedis.reset();
+    fakeRedis.evalHandler = swapEntry;
+    // Restart so this node's heartbeat is written again
+    roomRoster.stopHeartbeat();
+    roomRoster.startHeartbeat();
+  });
+
+  afterAll(() => roomRoster.stopHeartbeat());
+
+  it('should list the entries of live nodes and prune the rest', async () => {
+    await roomRoster.upsert('m-1', entry('p-1'));
+    const stale = { ...entry('p-2'), nodeId: 'gone' };
+    (fakeRedis.data.get(rosterKey) as Map<string, string>).set(
+      'p-2',
+      JSON.stringify(stale)
+    );
+
+    const listed = await roomRoster.list('m-1');
+    expect(listed.map(e => e.participantId)).toEqual(['p-1']);
+    expect(listed[0].nodeId).toBe(instanceId);
+    expect(await roomRoster.get('m-1', 'p-2')).toBeNull();
+  });
+
+  it('should merge media patches per track', async () => {
+    await roomRoster.upsert('m-1', entry('p-1'));
+
+    const updated = await roomRoster.update('m-1', 'p-1', {
+      mediaState: { mic: 'off' },
+    });
+    expect(updated?.mediaState).toEqual({
+      mic: 'off',
+      cam: 'on',
+      screen: 'off',
+    });
+  });
+
+  it('should keep an update that lands between read and write', async () => {
+    await roomRoster.upsert('m-1', entry('p-1'));
+
+    // Another node turns the camera off while the mute is in flight
+    let raced = false;
+    fakeRedis.evalHandler = (keys, args) => {
+      if (!raced) {
+        raced = true;
+        const current = JSON.parse(args[1]);
+        current.mediaState.cam = 'off';
+        (fakeRedis.data.get(keys[0]) as Map<string, string>).set(
+          args[0],
+          JSON.stringify(current)
+        );
+      }
+      return swapEntry(keys, args);
+    };
+
+    await roomRoster.update('m-1', 'p-1', { mediaState: { mic: 'off' } });
+
+    const stored = await roomRoster.get('m-1', 'p-1');
+    expect(stored?.mediaState).toEqual({
+      mic: 'off',
+      cam: 'off',
+      screen: 'off',
+    });
+  });
+
+  it('should not recreate an entry that has been removed', async () => {
+    expect(
+      await roomRoster.update('m-1', 'p-1', { handRaised: true })
+    ).toBeNull();
+  });
+
+  it('should only count newcomers against the participant limit', async () => {
+    await roomRoster.upsert('m-1', entry('p-1'));
+    await roomRoster.upsert('m-1', entry('p-2'));
+
+    expect(await roomRoster.hasRoomFor('m-1', 'p-3', 2)).toBe(false);
+    expect(await roomRoster.hasRoomFor('m-1', 'p-2', 2)).toBe(true);
+    expect(await roomRoster.hasRoomFor('m-1', 'p-3', 3)).toBe(true);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach, afterAll } from 'bun:test';
+import { fakeRedis, useFakeRedis } from './helpers/fake-redis';
+
+useFakeRedis();
+
+const { typingTracker } = await import('../src/ws/typing');
+const { env } = await import('../src/env');
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// `typing` of every chat.typing.changed published for the meeting
+const typingEvents = () =>
+  fakeRedis.published
+    .filter(({ channel }) => channel === 'meeting:m-1')
+    .map(({ message }) => message.message.payload.typing);
+
+describe('Typing Indicators', () => {
+  const { CHAT_TYPING_THROTTLE_MS, CHAT_TYPING_TIMEOUT_MS } = env;
+
+  beforeEach(() => {
+    fakeRedis.reset();
+    env.CHAT_TYPING_THROTTLE_MS = 1000;
+    env.CHAT_TYPING_TIMEOUT_MS = 20;
+  });
+
+  afterAll(() => {
+    Object.assign(env, { CHAT_TYPING_THROTTLE_MS, CHAT_TYPING_TIMEOUT_MS });
+  });
+
+  it('should broadcast repeated typing once per throttle window', async () => {
+    await typingTracker.start('m-1', 'p-1');
+    await typingTracker.start('m-1', 'p-1');
+    await typingTracker.start('m-1', 'p-1');
+
+    expect(typingEvents()).toEqual([true]);
+
+    await typingTracker.stop('m-1', 'p-1');
+  });
+
+  it('should stop typing once it is not refreshed', async () => {
+    await typingTracker.start('m-1', 'p-1');
+    await wait(60);
+
+    expect(typingEvents()).toEqual([true, false]);
+  });
+
+  it('should push the timeout back on every refresh', async () => {
+    await typingTracker.start('m-1', 'p-1');
+    await wait(12);
+    await typingTracker.start('m-1', 'p-1');
+    await wait(12);
+
+    expect(typingEvents()).toEqual([true]);
+
+    await wait(40);
+    expect(typingEvents()).toEqual([true, false]);
+  });
+
+  it('should not announce a stop for someone who was not typing', async () => {
+    await typingTracker.stop('m-1', 'p-1');
+
+    expect(typingEvents()).toEqual([]);
+  });
+});
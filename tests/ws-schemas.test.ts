@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  wsMessageSchema,
+  chatSendSchema,
+  rtcSignalSchema,
+  mediaUpdateSchema,
+  roomLeaveSchema,
+  chatTypingSchema,
+  moderationRemoveSchema,
+  moderationMuteAllSchema,
+  moderationUpdateSettingsSchema,
+} from '../src/ws/schemas';
+
+describe('WebSocket Message Schemas', () => {
+  it('should require a message type', () => {
+    expect(wsMessageSchema.safeParse({ payload: {} }).success).toBe(false);
+    expect(wsMessageSchema.safeParse({ type: 'chat.send' }).success).toBe(true);
+  });
+
+  it('should reject chat messages without text', () => {
+    const result = chatSendSchema.safeParse({});
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].path).toEqual(['text']);
+  });
+
+  it('should accept direct messages to one or more participants', () => {
+    expect(chatSendSchema.safeParse({ text: 'hi', to: 'p-1' }).success).toBe(
+      true
+    );
+    expect(
+      chatSendSchema.safeParse({ text: 'hi', to: ['p-1', 'p-2'] }).success
+    ).toBe(true);
+    expect(chatSendSchema.safeParse({ text: 'hi', to: [] }).success).toBe(
+      false
+    );
+    expect(
+      chatSendSchema.safeParse({
+        text: 'hi',
+        to: 'p-1',
+        audience: 'moderators',
+      }).success
+    ).toBe(false);
+  });
+
+  it('should reject rtc signals with a non-string target', () => {
+    expect(rtcSignalSchema.safeParse({ to: 42, type: 'offer' }).success).toBe(
+      false
+    );
+    expect(
+      rtcSignalSchema.safeParse({ to: 'participant-1', type: 'offer' }).success
+    ).toBe(true);
+  });
+
+  it('should only accept known media fields', () => {
+    expect(mediaUpdateSchema.safeParse({ mic: 'on' }).success).toBe(true);
+    expect(mediaUpdateSchema.safeParse({ mic: 'loud' }).success).toBe(false);
+    expect(mediaUpdateSchema.safeParse({ volume: 3 }).success).toBe(false);
+  });
+
+  it('should default missing payloads to an empty object', () => {
+    expect(roomLeaveSchema.parse(undefined)).toEqual({});
+  });
+
+  it('should ban removed participants unless told otherwise', () => {
+    expect(moderationRemoveSchema.parse({ participantId: 'p-1' }).ban).toBe(
+      true
+    );
+    expect(
+      moderationRemoveSchema.parse({ participantId: 'p-1', ban: false }).ban
+    ).toBe(false);
+  });
+
+  it('should treat an empty typing payload as typing', () => {
+    expect(chatTypingSchema.parse(undefined)).toEqual({ typing: true });
+    expect(chatTypingSchema.parse({ typing: false })).toEqual({
+      typing: false,
+    });
+  });
+
+  it('should accept mute-all with or without exclusions', () => {
+    expect(moderationMuteAllSchema.parse(undefined)).toEqual({});
+    expect(
+      moderationMuteAllSchema.parse({ exclude: ['p-1'], lockMic: true })
+    ).toEqual({ exclude: ['p-1'], lockMic: true });
+    expect(moderationMuteAllSchema.safeParse({ exclude: 'p-1' }).success).toBe(
+      false
+    );
+  });
+
+  it('should only accept known settings updates', () => {
+    expect(moderationUpdateSettingsSchema.parse({ muteOnEntry: true })).toEqual(
+      { muteOnEntry: true }
+    );
+    expect(
+      moderationUpdateSettingsSchema.safeParse({ muted: true }).success
+    ).toBe(false);
+  });
+});
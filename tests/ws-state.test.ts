@@ -0,0 +1,287 @@
+import { describe, it, expect, mock, beforeEach } from 'bun:test';
+import { fakeRedis, useFakeRedis } from './helpers/fake-redis';
+import type { SocketWithContext } from '../src/ws/types';
+import type { Capability } from '../src/common/permissions';
+
+useFakeRedis();
+
+const { WSState } = await import('../src/ws/state');
+const { resumeStore } = await import('../src/ws/resume');
+const { instanceId, redisPub } = await import('../src/ws/redis');
+const { closeEndedMeeting } = await import('../src/ws/handlers/room');
+
+type FakeSocket = SocketWithContext & { sent: any[] };
+
+const fakeSocket = (participantId: string, perms: Capability[]) =>
+  ({
+    data: {
+      authenticated: true,
+      lastSeenAt: Date.now(),
+      participantId,
+      meetingId: 'm-1',
+      role: 'guest',
+      perms,
+    },
+    sent: [] as any[],
+    send(this: { sent: any[] }, payload: string) {
+      this.sent.push(JSON.parse(payload));
+    },
+    close() {},
+  }) as unknown as FakeSocket;
+
+// Buffering runs in the background
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const joined = {
+  type: 'participant.joined',
+  payload: { participantId: 'p-9' },
+};
+const chat = { type: 'chat.message', payload: { text: 'hi' } };
+
+describe('WebSocket State', () => {
+  let state: InstanceType<typeof WSState>;
+
+  beforeEach(() => {
+    fakeRedis.reset();
+    state = new WSState();
+  });
+
+  it('should withhold roster events from participants who may not see it', () => {
+    const viewer = fakeSocket('p-1', ['seeRoster']);
+    const blind = fakeSocket('p-2', []);
+    state.addToRoom('m-1', 'p-1', viewer);
+    state.addToRoom('m-1', 'p-2', blind);
+
+    state.broadcastToRoom('m-1', joined);
+    state.broadcastToRoom('m-1', chat);
+
+    expect(viewer.sent).toEqual([joined, chat]);
+    expect(blind.sent).toEqual([chat]);
+  });
+
+  it('should buffer for detached participants what a live socket would get', async () => {
+    const viewer = fakeSocket('p-1', ['seeRoster']);
+    const blind = fakeSocket('p-2', []);
+    state.addToRoom('m-1', 'p-1', viewer);
+    state.addToRoom('m-1', 'p-2', blind);
+    state.detachFromRoom('m-1', 'p-1', viewer);
+    state.detachFromRoom('m-1', 'p-2', blind);
+
+    state.broadcastToRoom('m-1', joined);
+    state.broadcastToRoom('m-1', chat);
+    await settle();
+
+    expect(await resumeStore.drain('p-1')).toEqual([joined, chat]);
+    expect(await resumeStore.drain('p-2')).toEqual([chat]);
+  });
+
+  it('should apply grants sent while detached to what is buffered', async () => {
+    const socket = fakeSocket('p-1', []);
+    state.addToRoom('m-1', 'p-1', socket);
+    state.detachFromRoom('m-1', 'p-1', socket);
+
+    const granted = { type: 'room.permissionsChanged', payload: {} };
+    await state.sendToParticipant('m-1', 'p-1', granted, {
+      role: 'cohost',
+      perms: ['seeRoster'],
+    });
+    state.broadcastToRoom('m-1', joined);
+    await settle();
+
+    expect(await resumeStore.drain('p-1')).toEqual([granted, joined]);
+  });
+
+  it('should replay buffered events once, in order', async () => {
+    await resumeStore.buffer('p-1', chat);
+    await resumeStore.buffer('p-1', joined);
+
+    expect(await resumeStore.drain('p-1')).toEqual([chat, joined]);
+    expect(await resumeStore.drain('p-1')).toEqual([]);
+  });
+});
+
+describe('Cluster Routing', () => {
+  let state: InstanceType<typeof WSState>;
+
+  // Another node's participant, as it appears in the roster
+  const remoteEntry = (participantId: string, nodeId: string) => {
+    fakeRedis.data.set(`node:${nodeId}:alive`, String(Date.now()));
+    fakeRedis.data.set(
+      'meeting:m-1:roster',
+      new Map([[participantId, JSON.stringify({ participantId, nodeId })]])
+    );
+  };
+
+  beforeEach(() => {
+    fakeRedis.reset();
+    state = new WSState();
+  });
+
+  it('should deliver to a local socket with its new grants', async () => {
+    const socket = fakeSocket('p-1', []);
+    state.addToRoom('m-1', 'p-1', socket);
+
+    expect(
+      await state.sendToParticipant('m-1', 'p-1', chat, {
+        role: 'cohost',
+        perms: ['moderate'],
+      })
+    ).toBe(true);
+    expect(socket.sent).toEqual([chat]);
+    expect(socket.data.role).toBe('cohost');
+    expect(socket.data.perms).toEqual(['moderate']);
+  });
+
+  it("should publish to the node holding the participant's socket", async () => {
+    remoteEntry('p-2', 'node-b');
+
+    expect(await state.sendToParticipant('m-1', 'p-2', chat)).toBe(true);
+    expect(fakeRedis.published).toEqual([
+      {
+        channel: 'node:node-b',
+        message: {
+          meetingId: 'm-1',
+          participantId: 'p-2',
+          message: chat,
+          origin: instanceId,
+        },
+      },
+    ]);
+  });
+
+  it('should report participants who are not in the room', async () => {
+    expect(await state.sendToParticipant('m-1', 'p-3', chat)).toBe(false);
+    expect(fakeRedis.published).toEqual([]);
+  });
+
+  it('should deliver and evict on behalf of other nodes', async () => {
+    const socket = fakeSocket('p-1', []);
+    state.addToRoom('m-1', 'p-1', socket);
+    state.start();
+
+    await redisPub.publish(
+      `node:${instanceId}`,
+      JSON.stringify({
+        origin: 'node-b',
+        meetingId: 'm-1',
+        participantId: 'p-1',
+        message: chat,
+        evict: true,
+      })
+    );
+    state.stop();
+
+    expect(socket.sent).toEqual([chat]);
+    expect(socket.data.meetingId).toBeUndefined();
+    expect(state.getSocket('m-1', 'p-1')).toBeUndefined();
+  });
+});
+
+describe('Meeting Pub/Sub', () => {
+  beforeEach(() => fakeRedis.reset());
+
+  it('should re-broadcast room events published by other nodes', async () => {
+    const state = new WSState();
+    const socket = fakeSocket('p-1', ['seeRoster']);
+    state.addToRoom('m-1', 'p-1', socket);
+
+    await redisPub.publish(
+      'meeting:m-1',
+      JSON.stringify({ origin: 'node-b', message: chat })
+    );
+    // Events this node published were already broadcast locally
+    await redisPub.publish(
+      'meeting:m-1',
+      JSON.stringify({ origin: instanceId, message: joined })
+    );
+    state.removeFromRoom('m-1', 'p-1');
+
+    expect(socket.sent).toEqual([chat]);
+  });
+});
+
+describe('Ending Meetings', () => {
+  const ended = { type: 'room.ended', payload: { by: 'p-host' } };
+
+  beforeEach(() => fakeRedis.reset());
+
+  it('should close local sockets when another node ends the meeting', async () => {
+    const state = new WSState();
+    const socket = fakeSocket('p-1', []);
+    let closed = false;
+    socket.close = () => {
+      closed = true;
+    };
+    state.addToRoom('m-1', 'p-1', socket);
+
+    await redisPub.publish(
+      'meeting:m-1',
+      JSON.stringify({ origin: 'node-b', message: ended })
+    );
+
+    expect(socket.sent).toEqual([ended]);
+    expect(closed).toBe(true);
+    expect(socket.data.meetingId).toBeUndefined();
+    expect(state.getSocket('m-1', 'p-1')).toBeUndefined();
+  });
+
+  it('should turn away guests waiting on other nodes', async () => {
+    fakeRedis.data.set('node:node-b:alive', String(Date.now()));
+    const waiting = {
+      participantId: 'p-9',
+      displayName: 'Guest',
+      waitingSince: new Date().toISOString(),
+      nodeId: 'node-b',
+    };
+    fakeRedis.data.set(
+      'meeting:m-1:lobby',
+      new Map([['p-9', JSON.stringify(waiting)]])
+    );
+
+    await closeEndedMeeting('m-1', null, 'p-host');
+
+    expect(fakeRedis.published).toContainEqual({
+      channel: 'node:node-b',
+      message: {
+        meetingId: 'm-1',
+        participantId: 'p-9',
+        lobby: 'end',
+        origin: instanceId,
+      },
+    });
+    expect(fakeRedis.published).toContainEqual({
+      channel: 'meeting:m-1',
+      message: {
+        origin: instanceId,
+        message: {
+          type: 'room.ended',
+          payload: { endedAt: null, by: 'p-host' },
+        },
+      },
+    });
+  });
+
+  it('should hand lobby decisions from other nodes to the lobby handler', async () => {
+    const state = new WSState();
+    const handler = mock((_decision: unknown) => {});
+    state.onLobbyDecision(handler);
+    state.start();
+
+    await redisPub.publish(
+      `node:${instanceId}`,
+      JSON.stringify({
+        origin: 'node-b',
+        meetingId: 'm-1',
+        participantId: 'p-9',
+        lobby: 'end',
+      })
+    );
+    state.stop();
+
+    expect(handler).toHaveBeenCalledWith({
+      meetingId: 'm-1',
+      participantId: 'p-9',
+      decision: 'end',
+    });
+  });
+});